@@ -6,8 +6,9 @@ import clsx from "clsx";
 import UmbracoForm, {
   umbracoFormToZod,
   coerceFormData,
+  resolveMagicString,
   type FormDto,
-} from "./components/UmbracoForm";
+} from "./components";
 
 import formDefinition from "./form-definition";
 
@@ -22,7 +23,9 @@ function App() {
     <div className="p-4">
       {sentForm ? (
         <div className="space-y-4 mb-4">
-          {form?.messageOnSubmit}
+          {resolveMagicString(form?.messageOnSubmit, {
+            values: sentForm as Record<string, unknown>,
+          })}
           <pre>{JSON.stringify(sentForm, null, 2)}</pre>
         </div>
       ) : (
@@ -1,33 +1,22 @@
-import React, {
-  Fragment,
-  useCallback,
-  useState,
-  useTransition,
-  useDeferredValue,
-} from "react";
-import type { ZodIssue } from "zod";
-import type { UmbracoFormConfig, DtoWithCondition, FormDto } from "./types";
-import {
-  getAllFieldsOnPage,
-  filterFieldsByConditions,
-  getFieldByZodIssue,
-} from "./field-utils";
-import {
-  coerceFormData,
-  sortZodIssuesByFieldAlias,
-  umbracoFormToZod,
-} from "./umbraco-form-to-zod";
+import React, { Fragment } from "react";
+import type { FormDto, FormValues } from "./types";
 import * as defaultComponents from "./default-components";
-import { isConditionFulfilled } from "./conditions";
+import { resolveFieldMagicStrings } from "./magic-strings";
+import { useUmbracoForm, type UseUmbracoFormOptions } from "./use-umbraco-form";
+import { UmbracoFormProvider } from "./form-context";
+import { PAGE_INPUT_NAME } from "./ssr";
 
 type RenderFn<T extends React.JSXElementConstructor<any>> = (
   props: React.ComponentProps<T>,
 ) => React.ReactNode;
 
-export interface UmbracoFormProps
-  extends React.FormHTMLAttributes<HTMLFormElement> {
+export interface UmbracoFormProps<TValues extends FormValues = FormValues>
+  extends Omit<
+      React.FormHTMLAttributes<HTMLFormElement>,
+      "onChange" | "onBlur" | "onSubmit"
+    >,
+    UseUmbracoFormOptions<TValues> {
   form: FormDto;
-  config?: Partial<UmbracoFormConfig>;
   renderForm?: RenderFn<typeof defaultComponents.Form>;
   renderPage?: RenderFn<typeof defaultComponents.Page>;
   renderFieldset?: RenderFn<typeof defaultComponents.Fieldset>;
@@ -40,13 +29,28 @@ export interface UmbracoFormProps
   renderSubmitButton?: RenderFn<typeof defaultComponents.SubmitButton>;
   renderNextButton?: RenderFn<typeof defaultComponents.NextButton>;
   renderPreviousButton?: RenderFn<typeof defaultComponents.PreviousButton>;
+  renderStepper?: RenderFn<typeof defaultComponents.Stepper>;
 }
 
-function UmbracoForm(props: UmbracoFormProps) {
-  const [, startValidationTransition] = useTransition();
+function UmbracoForm<TValues extends FormValues = FormValues>(
+  props: UmbracoFormProps<TValues>,
+) {
   const {
     form,
-    config: configOverride = {},
+    config,
+    defaultValues,
+    values,
+    defaultPage,
+    onValuesChange,
+    onChange,
+    onBlur,
+    onSubmit,
+    onFieldChange,
+    onPageChange,
+    onValidationFailed,
+    onConditionVisibilityChange,
+    onSubmitSuccess,
+    onSubmitError,
     renderForm: Form = defaultComponents.Form,
     renderPage: Page = defaultComponents.Page,
     renderFieldset: Fieldset = defaultComponents.Fieldset,
@@ -56,299 +60,96 @@ function UmbracoForm(props: UmbracoFormProps) {
     renderSubmitButton: SubmitButton = defaultComponents.SubmitButton,
     renderNextButton: NextButton = defaultComponents.NextButton,
     renderPreviousButton: PreviousButton = defaultComponents.PreviousButton,
+    renderStepper: Stepper = defaultComponents.Stepper,
     renderValidationSummary:
       ValidationSummary = defaultComponents.ValidationSummary,
     children,
-    onChange,
-    onSubmit,
-    onBlur,
     ...rest
   } = props;
 
-  const config = {
-    schema: configOverride?.schema ?? umbracoFormToZod(form),
-    shouldValidate: false,
-    shouldUseNativeValidation: false,
-    validateMode: "onSubmit",
-    reValidateMode: "onBlur",
-    ...configOverride,
-  } as UmbracoFormConfig;
-
-  const [internalData, setInternalData] = useState<Record<string, unknown>>({});
-  const deferredInternalData = useDeferredValue(internalData);
-
-  const [attemptCount, setAttemptCount] = useState<number>(0);
-  const [formIssues, setFormIssues] = useState<ZodIssue[]>([]);
-  const [summaryIssues, setSummaryIssues] = useState<ZodIssue[]>([]);
-  const [currentPage, setCurrentPage] = useState(0);
-
-  const checkCondition = (dto: DtoWithCondition) =>
-    isConditionFulfilled(
-      dto,
-      form,
-      deferredInternalData,
-      config?.mapCustomFieldToZodType,
-    );
-
-  const validateFormData = useCallback(
-    (coercedData: Record<string, unknown>, fieldName?: string) => {
-      const parsedForm = config?.schema?.safeParse(coercedData);
-      if (parsedForm?.success) {
-        setFormIssues([]);
-      } else if (parsedForm?.error?.issues) {
-        setFormIssues((prev) =>
-          sortZodIssuesByFieldAlias(
-            form,
-            fieldName
-              ? [
-                  ...prev.filter((issue) => issue.path.join(".") !== fieldName),
-                  ...parsedForm.error.issues.filter(
-                    (issue) => issue.path.join(".") === fieldName,
-                  ),
-                ]
-              : parsedForm.error.issues,
-          ),
-        );
-      }
-      return parsedForm;
-    },
-    [form, config.schema],
-  );
-
-  const isCurrentPageValid = useCallback(() => {
-    const activePage = form?.pages?.[currentPage];
-
-    // dont validate fields that are not visible to the user
-    const fieldsWithConditionsMet = filterFieldsByConditions(
-      form,
-      deferredInternalData,
-      config.mapCustomFieldToZodType,
-    ).map((field) => field.alias);
-
-    // get all fields with issues and filter out fields with conditions that are not met
-    const allFieldIssues = validateFormData(
-      deferredInternalData,
-    ).error?.issues?.filter((issue) =>
-      fieldsWithConditionsMet.includes(getFieldByZodIssue(form, issue)?.alias),
-    );
-
-    // get all aliases for fields with issues
-    const fieldAliasesWithIssues = allFieldIssues?.map(
-      (issue) => getFieldByZodIssue(form, issue)?.alias,
-    );
-
-    // get all fields on the current page and filter out fields with conditions that are not met
-    // so that they wont block the user from going to the next page
-    const fieldsOnPage = getAllFieldsOnPage(activePage)?.filter((field) =>
-      fieldsWithConditionsMet.includes(field?.alias),
-    );
-
-    const aliasesOnPage = fieldsOnPage?.map((field) => field?.alias) ?? [];
-
-    const pageIssues =
-      allFieldIssues?.filter((issue) =>
-        aliasesOnPage?.includes(getFieldByZodIssue(form, issue)?.alias),
-      ) ?? [];
-
-    if (
-      fieldsOnPage?.some(
-        (field) => field && fieldAliasesWithIssues?.includes(field.alias),
-      )
-    ) {
-      // prevent user from going to next page if there are fields with issues on the current page
-
-      setAttemptCount((prev) => prev + 1);
-      if (form.showValidationSummary) {
-        setSummaryIssues(pageIssues);
-      }
-      return false;
-    }
-    return true;
-  }, [
-    config.shouldValidate,
-    form,
-    validateFormData,
+  const umbracoForm = useUmbracoForm<TValues>(form, {
+    config,
+    defaultValues,
+    values,
+    defaultPage,
+    onValuesChange,
+    onChange,
+    onBlur,
+    onSubmit,
+    onFieldChange,
+    onPageChange,
+    onValidationFailed,
+    onConditionVisibilityChange,
+    onSubmitSuccess,
+    onSubmitError,
+  });
+  const {
     currentPage,
-    deferredInternalData,
-  ]);
-
-  const handleOnChange = useCallback(
-    (e: React.ChangeEvent<HTMLFormElement>) => {
-      const field = e.target;
-      const formData = new FormData(e.currentTarget);
-      const coercedData = coerceFormData(formData, config.schema);
-      setInternalData(coercedData);
-
-      if (config.shouldValidate) {
-        const validateOnChange =
-          config.validateMode === "onChange" ||
-          config.validateMode === "all" ||
-          (attemptCount > 0 && config.reValidateMode === "onChange");
-
-        if (validateOnChange) {
-          startValidationTransition(() => {
-            if (validateFormData(coercedData, field.name).success === false) {
-              return;
-            }
-            if (typeof onChange === "function") {
-              onChange(e);
-            }
-          });
-        }
-      } else if (typeof onChange === "function") {
-        onChange(e);
-      }
-    },
-    [config.schema, config.shouldValidate, attemptCount, validateFormData],
-  );
-
-  const handleOnBlur = useCallback(
-    (e: React.FocusEvent<HTMLFormElement, HTMLElement>) => {
-      const field = e.target;
-      const formData = new FormData(e.currentTarget as HTMLFormElement);
-      const coercedData = coerceFormData(formData, config.schema);
-
-      if (config.shouldValidate) {
-        const validateOnBlur =
-          config.validateMode === "onBlur" ||
-          config.validateMode === "all" ||
-          (attemptCount > 0 && config.reValidateMode === "onBlur");
-
-        if (validateOnBlur) {
-          startValidationTransition(() => {
-            validateFormData(coercedData, field.name);
-            if (form.pages && form.pages?.length > 1) {
-              isCurrentPageValid();
-            }
-          });
-        }
-      }
-
-      if (typeof onBlur === "function") {
-        onBlur(e);
-      }
-    },
-    [validateFormData, form, isCurrentPageValid, config.shouldValidate],
-  );
-
-  const scrollToTopOfForm = useCallback(() => {
-    const formElement = document.getElementById("[name='" + form.id + "']");
-    if (formElement) {
-      formElement.scrollIntoView({ behavior: "smooth", block: "start" });
-    }
-  }, [form]);
-
-  const focusFirstInvalidField = useCallback(() => {
-    const fieldWithIssues = formIssues?.find((issue) => issue.path.length > 0);
-    if (fieldWithIssues) {
-      const fieldId = fieldWithIssues.path.join(".");
-      if (fieldId) {
-        const fieldElement = document.querySelector(
-          '[name="' + fieldId + '"]',
-        ) as HTMLInputElement;
-        if (fieldElement) {
-          fieldElement.focus();
-        }
-      }
-    }
-  }, [formIssues]);
-
-  const handleNextPage = useCallback(
-    (e: React.MouseEvent<HTMLButtonElement>) => {
-      e.preventDefault();
-      if (
-        config.shouldValidate &&
-        (config.validateMode === "onSubmit" || config.validateMode === "all")
-      ) {
-        startValidationTransition(() => {
-          if (isCurrentPageValid() === false) {
-            scrollToTopOfForm();
-            focusFirstInvalidField();
-            setAttemptCount((prev) => prev + 1);
-            return;
-          }
-          setCurrentPage((prev) => prev + 1);
-          setAttemptCount(0);
-        });
-      } else {
-        setCurrentPage((prev) => prev + 1);
-      }
-    },
-    [
-      isCurrentPageValid,
-      focusFirstInvalidField,
-      scrollToTopOfForm,
-      config.shouldValidate,
-    ],
-  );
-
-  const handlePreviousPage = useCallback(
-    (e: React.MouseEvent<HTMLButtonElement>) => {
-      e.preventDefault();
-      setCurrentPage((prev) => (prev === 0 ? prev : prev - 1));
-      scrollToTopOfForm();
-    },
-    [scrollToTopOfForm],
-  );
-
-  const handleOnSubmit = useCallback(
-    (e: React.FormEvent<HTMLFormElement>) => {
-      if (config.shouldValidate) {
-        e.preventDefault();
-        startValidationTransition(() => {
-          setAttemptCount((prev) => prev + 1);
-          const submitData = coerceFormData(
-            new FormData(e.currentTarget),
-            config.schema,
-          );
-          const validationResult = validateFormData(submitData);
-          if (validationResult.success === false) {
-            focusFirstInvalidField();
-            if (form.showValidationSummary) {
-              setSummaryIssues(validationResult.error.issues);
-            }
-            return;
-          }
-          setSummaryIssues([]);
-          if (typeof onSubmit === "function") {
-            onSubmit(e);
-          }
-        });
-      } else {
-        if (typeof onSubmit === "function") {
-          onSubmit(e);
-        }
-      }
-    },
-    [focusFirstInvalidField, config.schema, onSubmit],
-  );
+    // buttons receive the position among the visible pages, so hidden pages are skipped
+    currentPagePosition,
+    totalPages,
+    steps,
+    attemptCount,
+    summaryIssues,
+    isControlled,
+    isHydrated,
+    isPaged,
+    valuesVersion,
+    checkCondition,
+    getFieldIssues,
+    getFieldValue,
+    goTo,
+  } = umbracoForm;
+  // the buttons render nothing when they are hidden, so the prop getters are spread as is
+  const previousButtonProps = umbracoForm.getPreviousButtonProps();
+  const nextButtonProps = umbracoForm.getNextButtonProps();
 
   const context = {
     form,
-    config,
+    config: umbracoForm.config,
   };
 
-  const totalPages = form?.pages?.filter(checkCondition).length ?? 1;
+  // field value tokens are resolved against the current values so they update as the user types
+  const magicStringContext = {
+    // the location and cookies are only read once hydrated, so the markup matches the server
+    ...(isHydrated ? {} : { query: new URLSearchParams(), cookies: {} }),
+    ...umbracoForm.config.magicStrings,
+    values: umbracoForm.values,
+  };
 
   return (
-    <Fragment>
-      {form.showValidationSummary && attemptCount > 0 ? (
+    <UmbracoFormProvider value={umbracoForm}>
+      {attemptCount > 0 &&
+      (form.showValidationSummary ||
+        // form level issues from the server are always shown in the summary
+        summaryIssues.some((issue) => issue.path.length === 0)) ? (
         <ValidationSummary {...context} issues={summaryIssues} />
       ) : null}
       <Form
-        {...rest}
-        onChange={handleOnChange}
-        onSubmit={handleOnSubmit}
-        onBlur={handleOnBlur}
+        // uncontrolled inputs are remounted when their values are replaced, e.g. by a draft restored after hydration
+        key={"form." + valuesVersion}
+        {...umbracoForm.getFormProps(rest)}
         {...context}
       >
+        {isPaged && config?.noScriptNavigation === "roundTrip" ? (
+          <input type="hidden" name={PAGE_INPUT_NAME} value={currentPage} />
+        ) : null}
+        {isHydrated && totalPages > 1 ? (
+          <Stepper
+            steps={steps}
+            onStepClick={goTo}
+            totalPages={totalPages}
+            form={form}
+          />
+        ) : null}
         {form?.pages?.map((page, index) => (
           <Page
             key={"page." + index}
             page={page}
             pageIndex={index}
             condition={checkCondition(page)}
-            currentPage={currentPage}
+            // all pages are shown at once when pages are not navigated
+            currentPage={isPaged ? currentPage : index}
             totalPages={totalPages}
             {...context}
           >
@@ -361,16 +162,24 @@ function UmbracoForm(props: UmbracoFormProps) {
               >
                 {fieldset?.columns?.map((column, index) => (
                   <Column key={"column." + index} column={column} {...context}>
-                    {column?.fields?.map((field) => {
-                      const issues = formIssues?.filter(
-                        (issue) => issue.path.join(".") === field.alias,
+                    {column?.fields?.map((fieldDefinition) => {
+                      const field = resolveFieldMagicStrings(
+                        fieldDefinition,
+                        magicStringContext,
                       );
-                      const fieldTypeProps = { field, issues, ...context };
+                      const issues = getFieldIssues(field.alias);
+                      const fieldTypeProps = {
+                        field,
+                        issues,
+                        value: getFieldValue(field.alias),
+                        isControlled,
+                        ...context,
+                      };
                       return (
                         <Field
                           key={"field." + field?.id}
                           field={field}
-                          condition={checkCondition(field)}
+                          condition={checkCondition(fieldDefinition)}
                           issues={issues}
                           {...context}
                         >
@@ -389,29 +198,29 @@ function UmbracoForm(props: UmbracoFormProps) {
           </Page>
         ))}
         {children}
-        {totalPages > 1 ? (
+        {isPaged && totalPages > 1 ? (
           <Fragment>
             <PreviousButton
-              onClick={handlePreviousPage}
-              currentPage={currentPage}
+              {...previousButtonProps}
+              currentPage={currentPagePosition}
               totalPages={totalPages}
               {...context}
             />
             <NextButton
-              onClick={handleNextPage}
-              currentPage={currentPage}
+              {...nextButtonProps}
+              currentPage={currentPagePosition}
               totalPages={totalPages}
               {...context}
             />
           </Fragment>
         ) : null}
         <SubmitButton
-          currentPage={currentPage}
+          currentPage={isPaged ? currentPagePosition : totalPages - 1}
           totalPages={totalPages}
           {...context}
         />
       </Form>
-    </Fragment>
+    </UmbracoFormProvider>
   );
 }
 
@@ -422,7 +231,7 @@ UmbracoForm.Column = defaultComponents.Column;
 UmbracoForm.Field = defaultComponents.Field;
 UmbracoForm.SubmitButton = defaultComponents.SubmitButton;
 UmbracoForm.ValidationSummary = defaultComponents.ValidationSummary;
+UmbracoForm.CaptchaWidget = defaultComponents.CaptchaWidget;
+UmbracoForm.Stepper = defaultComponents.Stepper;
 
-export { umbracoFormToZod, coerceFormData };
-export type * from "./types";
 export default UmbracoForm;
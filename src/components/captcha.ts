@@ -0,0 +1,144 @@
+/** Options for rendering a captcha widget */
+export interface CaptchaWidgetOptions {
+  /** Color theme of the widget, e.g. `light` or `dark` */
+  theme?: string;
+  /** Size of the widget, e.g. `normal` or `compact` */
+  size?: string;
+  /** Called with a new token when the widget is solved, and with an empty string when the token expires */
+  onToken: (token: string) => void;
+  /** Called when the widget fails to load or verify */
+  onError?: (error?: unknown) => void;
+}
+
+/** Provider for the captcha field types, responsible for loading scripts and obtaining tokens */
+export interface CaptchaProvider {
+  /** renders a challenge widget into the container, returns a function that removes the widget again */
+  renderWidget(
+    container: HTMLElement,
+    options: CaptchaWidgetOptions,
+  ): () => void;
+  /** obtains a token for an invisible, score based captcha */
+  getScoreToken(action: string): Promise<string>;
+}
+
+/** Options for the reCAPTCHA provider */
+export interface RecaptchaProviderOptions {
+  /** Site key used for reCAPTCHA v2 widgets */
+  siteKey?: string;
+  /** Site key used for reCAPTCHA v3 score tokens */
+  scoreSiteKey?: string;
+  /** Url of the reCAPTCHA script; defaults to `https://www.google.com/recaptcha/api.js` */
+  scriptUrl?: string;
+}
+
+type Grecaptcha = {
+  ready: (callback: () => void) => void;
+  render: (
+    container: HTMLElement,
+    parameters: Record<string, unknown>,
+  ) => number;
+  execute: (siteKey: string, options: { action: string }) => Promise<string>;
+  reset: (widgetId?: number) => void;
+};
+
+declare global {
+  interface Window {
+    grecaptcha?: Grecaptcha;
+  }
+}
+
+/** creates a captcha provider for Google reCAPTCHA v2 and v3
+ * @see https://docs.umbraco.com/umbraco-forms/developer/headless#recaptcha */
+export function createRecaptchaProvider(
+  options: RecaptchaProviderOptions,
+): CaptchaProvider {
+  const {
+    siteKey,
+    scoreSiteKey,
+    scriptUrl = "https://www.google.com/recaptcha/api.js",
+  } = options;
+  let loading: Promise<Grecaptcha> | undefined;
+
+  const load = () => {
+    loading ??= new Promise<Grecaptcha>((resolve, reject) => {
+      if (typeof document === "undefined") {
+        reject(new Error("reCAPTCHA can only be loaded in a browser"));
+        return;
+      }
+      const script = document.createElement("script");
+      // the v3 site key renders the badge, v2 widgets are always rendered explicitly
+      script.src = scriptUrl + "?render=" + (scoreSiteKey ?? "explicit");
+      script.async = true;
+      script.defer = true;
+      script.onload = () => {
+        const grecaptcha = window.grecaptcha;
+        if (!grecaptcha) {
+          reject(new Error("reCAPTCHA script did not initialize"));
+          return;
+        }
+        grecaptcha.ready(() => resolve(grecaptcha));
+      };
+      script.onerror = () => {
+        loading = undefined;
+        reject(new Error("reCAPTCHA script failed to load"));
+      };
+      document.head.appendChild(script);
+    });
+    return loading;
+  };
+
+  return {
+    renderWidget(container, { theme, size, onToken, onError }) {
+      let isCancelled = false;
+      load().then(
+        (grecaptcha) => {
+          if (isCancelled) return;
+          if (!siteKey) {
+            onError?.(new Error("reCAPTCHA v2 site key is undefined"));
+            return;
+          }
+          grecaptcha.render(container, {
+            sitekey: siteKey,
+            theme: theme || undefined,
+            size: size || undefined,
+            callback: onToken,
+            "expired-callback": () => onToken(""),
+            "error-callback": () => {
+              onToken("");
+              onError?.();
+            },
+          });
+        },
+        (error) => {
+          if (!isCancelled) onError?.(error);
+        },
+      );
+      return () => {
+        isCancelled = true;
+        container.replaceChildren();
+      };
+    },
+    async getScoreToken(action) {
+      if (!scoreSiteKey) {
+        throw new Error("reCAPTCHA v3 site key is undefined");
+      }
+      const grecaptcha = await load();
+      return grecaptcha.execute(scoreSiteKey, { action });
+    },
+  };
+}
+
+/** creates a captcha provider that returns a fixed token without loading any scripts, intended for tests and local development */
+export function createTestCaptchaProvider(
+  token: string = "test-captcha-token",
+): CaptchaProvider {
+  return {
+    renderWidget(_, { onToken }) {
+      onToken(token);
+      return () => {};
+    },
+    getScoreToken() {
+      return Promise.resolve(token);
+    },
+  };
+}
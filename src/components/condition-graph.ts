@@ -0,0 +1,194 @@
+import type { DtoWithCondition, FormDto, FormFieldDto } from "./types";
+import {
+  type ConditionOptions,
+  isConditionFulfilled,
+  resolveConditionalData,
+} from "./conditions";
+import { getFieldByAlias } from "./field-utils";
+import type { MapFormFieldToZodFn } from "./umbraco-form-to-zod";
+
+/** Dependencies between the conditions of a form and the fields their rules refer to */
+export interface ConditionGraph {
+  /** Field ids referenced by the condition rules of each page, fieldset and field */
+  dependencies: Map<DtoWithCondition, string[]>;
+  /** Pages, fieldsets and fields whose condition rules reference each field id */
+  dependents: Map<string, DtoWithCondition[]>;
+  /** Circular conditions as field ids, where the first and last id are the same, e.g. `[a, b, a]`;
+   * a field is part of a cycle when its own condition or the condition of its fieldset or page depends on itself */
+  cycles: string[][];
+}
+
+const cachedGraphs = new WeakMap<FormDto, ConditionGraph>();
+
+/** builds the dependency graph of the conditions in a form, the graph is cached per form definition */
+export function getConditionGraph(form: FormDto): ConditionGraph {
+  const cachedGraph = cachedGraphs.get(form);
+  if (cachedGraph) return cachedGraph;
+
+  const dependencies = new Map<DtoWithCondition, string[]>();
+  const dependents = new Map<string, DtoWithCondition[]>();
+  // field ids that decide if a field is shown, including the conditions of its fieldset and page
+  const visibilityDependencies = new Map<string, string[]>();
+
+  const addDto = (dto: DtoWithCondition) => {
+    const fieldIds = (dto?.condition?.rules ?? []).flatMap((rule) =>
+      rule?.field ? [rule.field] : [],
+    );
+    if (fieldIds.length === 0) return fieldIds;
+    dependencies.set(dto, fieldIds);
+    new Set(fieldIds).forEach((fieldId) =>
+      dependents.set(fieldId, [...(dependents.get(fieldId) ?? []), dto]),
+    );
+    return fieldIds;
+  };
+
+  form?.pages?.forEach((page) => {
+    const pageFieldIds = addDto(page);
+    page?.fieldsets?.forEach((fieldset) => {
+      const fieldsetFieldIds = addDto(fieldset);
+      fieldset?.columns?.forEach((column) =>
+        column?.fields?.forEach((field) => {
+          const fieldIds = addDto(field);
+          if (field?.id) {
+            visibilityDependencies.set(field.id, [
+              ...new Set([...pageFieldIds, ...fieldsetFieldIds, ...fieldIds]),
+            ]);
+          }
+        }),
+      );
+    });
+  });
+
+  const graph = {
+    dependencies,
+    dependents,
+    cycles: findCycles(visibilityDependencies),
+  };
+  cachedGraphs.set(form, graph);
+  return graph;
+}
+
+/** gets the pages, fieldsets and fields whose condition rules reference a field */
+export function getConditionDependents(
+  form: FormDto,
+  fieldId: string,
+): DtoWithCondition[] {
+  return getConditionGraph(form).dependents.get(fieldId) ?? [];
+}
+
+/** gets the circular conditions of a form as field ids, e.g. `[a, b, a]` */
+export function getConditionCycles(form: FormDto): string[][] {
+  return getConditionGraph(form).cycles;
+}
+
+/** finds cycles with a depth first search, every cycle is reported once, starting at the first of its field ids that is visited */
+function findCycles(edges: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (fieldId: string) => {
+    const stackIndex = stack.indexOf(fieldId);
+    if (stackIndex !== -1) {
+      cycles.push([...stack.slice(stackIndex), fieldId]);
+      return;
+    }
+    if (visited.has(fieldId)) return;
+    visited.add(fieldId);
+    stack.push(fieldId);
+    edges.get(fieldId)?.forEach(visit);
+    stack.pop();
+  };
+
+  edges.forEach((_, fieldId) => visit(fieldId));
+  return cycles;
+}
+
+/** Evaluates conditions and caches the results, only conditions depending on changed values are evaluated again;
+ * the values of hidden fields count as empty, see `resolveConditionalData` */
+export interface ConditionEvaluator {
+  isConditionFulfilled(
+    dto: DtoWithCondition,
+    data: Record<string, unknown>,
+  ): boolean;
+  /** gets the fields whose page, fieldset and own conditions are fulfilled, like `filterFieldsByConditions` */
+  getVisibleFields(data: Record<string, unknown>): FormFieldDto[];
+}
+
+/** creates a condition evaluator for a form, values are compared with the values of the previous evaluation */
+export function createConditionEvaluator(
+  form: FormDto,
+  mapCustomFieldToZodType?: MapFormFieldToZodFn,
+  options?: ConditionOptions,
+): ConditionEvaluator {
+  const graph = getConditionGraph(form);
+  // only the results of the dtos in the graph are cached, as only those are invalidated when values change;
+  // copies such as fields with resolved magic strings are evaluated on every call
+  let results = new WeakMap<DtoWithCondition, boolean>();
+  let previousData: Record<string, unknown> | undefined;
+  let previousInput: Record<string, unknown> | undefined;
+  let resolvedData: Record<string, unknown> = {};
+  let visibleFields: FormFieldDto[] | undefined;
+
+  const invalidate = (data: Record<string, unknown>) => {
+    if (!previousData) {
+      results = new WeakMap();
+      return;
+    }
+    const aliases = new Set([
+      ...Object.keys(previousData),
+      ...Object.keys(data),
+    ]);
+    aliases.forEach((alias) => {
+      if (Object.is(previousData?.[alias], data[alias])) return;
+      const fieldId = getFieldByAlias(form, alias)?.id;
+      if (!fieldId) return;
+      graph.dependents.get(fieldId)?.forEach((dto) => results.delete(dto));
+    });
+  };
+
+  const evaluate = (dto: DtoWithCondition, data: Record<string, unknown>) => {
+    if (data !== previousData) {
+      invalidate(data);
+      previousData = data;
+    }
+    const cachedResult = results.get(dto);
+    if (cachedResult !== undefined) return cachedResult;
+    const result = isConditionFulfilled(
+      dto,
+      form,
+      data,
+      mapCustomFieldToZodType,
+      options,
+    );
+    if (graph.dependencies.has(dto)) results.set(dto, result);
+    return result;
+  };
+
+  const resolve = (data: Record<string, unknown>) => {
+    if (data !== previousInput) {
+      // each pass only hides or shows a few fields, so most results are reused between passes
+      resolvedData = resolveConditionalData(form, data, evaluate);
+      previousInput = data;
+      visibleFields = undefined;
+    }
+    return resolvedData;
+  };
+
+  return {
+    isConditionFulfilled(dto, data) {
+      return evaluate(dto, resolve(data));
+    },
+    getVisibleFields(data) {
+      const resolved = resolve(data);
+      visibleFields ??= (form?.pages ?? [])
+        .filter((page) => evaluate(page, resolved))
+        .flatMap((page) => page?.fieldsets ?? [])
+        .filter((fieldset) => evaluate(fieldset, resolved))
+        .flatMap((fieldset) => fieldset?.columns ?? [])
+        .flatMap((column) => column?.fields ?? [])
+        .filter((field) => field && evaluate(field, resolved));
+      return visibleFields;
+    },
+  };
+}
@@ -1,15 +1,78 @@
+import type { z } from "zod";
 import type {
   FieldConditionRuleOperator,
   FormDto,
+  FormFieldDto,
   DtoWithCondition,
 } from "./types";
-import { getFieldById } from "./field-utils";
+import { getAllFields, getFieldById } from "./field-utils";
 import {
   type MapFormFieldToZodFn,
   mapFieldToZod,
   coerceRuleValue,
   coerceFieldValue,
 } from "./umbraco-form-to-zod";
+import { toDateOnly } from "./dates";
+import {
+  type FieldTypePlugins,
+  getFieldTypePlugin,
+} from "./field-type-plugins";
+
+/** Function evaluating a condition rule, multi-value fields are passed as arrays */
+export type ConditionOperatorFn = (
+  fieldValue: unknown,
+  ruleValue: unknown,
+) => boolean;
+
+/** Custom condition rule operator with optional value coercion */
+export interface ConditionOperator {
+  evaluate: ConditionOperatorFn;
+  /** coerces the value of the rule target field; defaults to the coercion based on the zod type of the field */
+  coerceFieldValue?: (value: unknown, field: FormFieldDto) => unknown;
+  /** coerces the value of the rule; defaults to the coercion based on the zod type of the rule target field */
+  coerceRuleValue?: (value: string | undefined, field: FormFieldDto) => unknown;
+}
+
+/** Custom condition rule operators keyed by the operator name used in the form definition, e.g. `IsEmpty`;
+ * operators registered with the name of a built-in operator replace it */
+export type ConditionOperators = {
+  [K in FieldConditionRuleOperator]?: ConditionOperator | ConditionOperatorFn;
+} & {
+  [name: string]: ConditionOperator | ConditionOperatorFn | undefined;
+};
+
+/** Options for evaluating conditions */
+export interface ConditionOptions {
+  /** Custom condition rule operators */
+  conditionOperators?: ConditionOperators;
+  /** Field type plugins, used to map and coerce the values of the fields targeted by rules */
+  fieldTypes?: FieldTypePlugins;
+}
+
+/** gets a registered or built-in condition rule operator, returns `undefined` for unknown operators */
+export function getConditionOperator(
+  operator: string | undefined,
+  conditionOperators?: ConditionOperators,
+): ConditionOperator | undefined {
+  if (!operator) return undefined;
+  const customOperator = conditionOperators?.[operator];
+  if (customOperator) {
+    return typeof customOperator === "function"
+      ? { evaluate: customOperator }
+      : customOperator;
+  }
+  return Object.prototype.hasOwnProperty.call(
+    FIELD_CONDITION_OPERATOR_FUNCTIONS,
+    operator,
+  )
+    ? {
+        evaluate:
+          FIELD_CONDITION_OPERATOR_FUNCTIONS[
+            operator as FieldConditionRuleOperator
+          ],
+      }
+    : undefined;
+}
 
 /**
  * Checks if the condition specified in the data transfer object is fulfilled based on the form data.
@@ -18,6 +81,7 @@ import {
  * @param {FormDto} form - The form which includes the form structure and values.
  * @param {Record<string, unknown>} data - The data record containing field values.
  * @param {MapFormFieldToZodFn} [mapCustomFieldToZodType] - Optional function to map custom fields to Zod types.
+ * @param {ConditionOptions} [options] - Optional custom condition rule operators and field type plugins.
  * @returns {boolean} - Returns `true` if the condition is fulfilled, otherwise `false`.
  */
 export function isConditionFulfilled(
@@ -25,6 +89,7 @@ export function isConditionFulfilled(
   form: FormDto,
   data: Record<string, unknown>,
   mapCustomFieldToZodType?: MapFormFieldToZodFn,
+  options?: ConditionOptions,
 ): boolean {
   if (!dto.condition) return true;
   const isFulfilled = areAllRulesFulfilled(
@@ -32,6 +97,7 @@ export function isConditionFulfilled(
     form,
     data,
     mapCustomFieldToZodType,
+    options,
   );
   return dto?.condition?.actionType === "Show"
     ? isFulfilled
@@ -47,7 +113,9 @@ export function isConditionFulfilled(
  * @param {FormDto} form - The form which includes the fields to be checked against the rules.
  * @param {Record<string, unknown>} data - The data object containing field values to be validated.
  * @param {MapFormFieldToZodFn} [mapCustomFieldToZodType] - Optional function to map custom fields to Zod types.
- * @returns {boolean} - Returns true if all the rules are fulfilled, otherwise false.
+ * @param {ConditionOptions} [options] - Optional custom condition rule operators and field type plugins.
+ * @returns {boolean} - Returns true if all the rules are fulfilled, otherwise false. Rules with an unknown operator are not fulfilled,
+ * use `validateFormDefinition` to report them.
  * @throws {TypeError} - Throws an error if a rule field is undefined.
  * @throws {Error} - Throws an error if a rule target field cannot be found in the form definition.
  */
@@ -56,6 +124,7 @@ export function areAllRulesFulfilled(
   form: FormDto,
   data: Record<string, unknown>,
   mapCustomFieldToZodType?: MapFormFieldToZodFn,
+  options?: ConditionOptions,
 ): boolean {
   const rules = dto?.condition?.rules;
   if (!rules || rules.length === 0) return true;
@@ -64,20 +133,38 @@ export function areAllRulesFulfilled(
     if (rule?.field === undefined) {
       throw new TypeError("Rule field is undefined");
     }
-    const operator = rule?.operator as FieldConditionRuleOperator;
+    const operator = getConditionOperator(
+      rule?.operator,
+      options?.conditionOperators,
+    );
+    if (!operator) return false;
     const targetField = getFieldById(form, rule.field);
     if (targetField === undefined || targetField.alias === undefined) {
       throw new TypeError(
         `Rule target for field id: "${rule.field}" could not be found in the form definition`,
       );
     }
-    const fieldZodType = mapFieldToZod(targetField, mapCustomFieldToZodType);
+    const fieldZodType = getRuleZodType(
+      targetField,
+      mapCustomFieldToZodType,
+      options?.fieldTypes,
+    );
+    const plugin = getFieldTypePlugin(targetField, options?.fieldTypes);
 
-    // coerce values based on filed zod type to ensure proper comparisons
-    const fieldValue = coerceFieldValue(fieldZodType, data[targetField.alias]);
-    const ruleValue = coerceRuleValue(fieldZodType, rule.value);
+    // coerce values based on filed zod type to ensure proper comparisons,
+    // the coercion of the operator takes precedence over the coercion of the field type
+    const fieldValue = operator.coerceFieldValue
+      ? operator.coerceFieldValue(data[targetField.alias], targetField)
+      : plugin?.coerceConditionFieldValue
+        ? plugin.coerceConditionFieldValue(data[targetField.alias], targetField)
+        : coerceFieldValue(fieldZodType, data[targetField.alias]);
+    const ruleValue = operator.coerceRuleValue
+      ? operator.coerceRuleValue(rule.value, targetField)
+      : plugin?.coerceConditionRuleValue
+        ? plugin.coerceConditionRuleValue(rule.value, targetField)
+        : coerceRuleValue(fieldZodType, rule.value);
 
-    return FIELD_CONDITION_OPERATOR_FUNCTIONS[operator](fieldValue, ruleValue);
+    return operator.evaluate(fieldValue, ruleValue);
   });
 
   if (dto.condition?.logicType === "All") {
@@ -90,45 +177,197 @@ export function areAllRulesFulfilled(
 
   return true;
 }
+
+/**
+ * Removes the values of hidden fields from the data, like Umbraco Forms treats hidden fields as having no value.
+ * Fields are hidden by their own condition or the condition of their fieldset or page, and as hiding a field can
+ * change the outcome of conditions depending on it, conditions are resolved again until the hidden fields are stable.
+ *
+ * @param {FormDto} form - The form definition.
+ * @param {Record<string, unknown>} data - The data record containing field values.
+ * @param {Function} checkCondition - Function checking if the condition of a page, fieldset or field is fulfilled for the data.
+ * @returns {Record<string, unknown>} - The data without the values of hidden fields, the same object when no field is hidden.
+ */
+export function resolveConditionalData(
+  form: FormDto,
+  data: Record<string, unknown>,
+  checkCondition: (
+    dto: DtoWithCondition,
+    data: Record<string, unknown>,
+  ) => boolean,
+): Record<string, unknown> {
+  let resolvedData = data;
+  let hiddenAliases = new Set<string>();
+  // circular conditions may never become stable, so the number of passes is limited
+  const maxPasses = getAllFields(form).length + 1;
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const nextHiddenAliases = getHiddenFieldAliases(
+      form,
+      resolvedData,
+      checkCondition,
+    );
+    if (
+      nextHiddenAliases.size === hiddenAliases.size &&
+      [...nextHiddenAliases].every((alias) => hiddenAliases.has(alias))
+    ) {
+      break;
+    }
+    hiddenAliases = nextHiddenAliases;
+    resolvedData = Object.fromEntries(
+      Object.entries(data).filter(([alias]) => !hiddenAliases.has(alias)),
+    );
+  }
+  return resolvedData;
+}
+
+function getHiddenFieldAliases(
+  form: FormDto,
+  data: Record<string, unknown>,
+  checkCondition: (
+    dto: DtoWithCondition,
+    data: Record<string, unknown>,
+  ) => boolean,
+) {
+  const hiddenAliases = new Set<string>();
+  form?.pages?.forEach((page) => {
+    const isPageVisible = checkCondition(page, data);
+    page?.fieldsets?.forEach((fieldset) => {
+      const isFieldsetVisible = isPageVisible && checkCondition(fieldset, data);
+      fieldset?.columns?.forEach((column) =>
+        column?.fields?.forEach((field) => {
+          if (
+            field?.alias &&
+            !(isFieldsetVisible && checkCondition(field, data))
+          ) {
+            hiddenAliases.add(field.alias);
+          }
+        }),
+      );
+    });
+  });
+  return hiddenAliases;
+}
+
+const ISO_DATE_PREFIX_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+const cachedRuleZodTypes = new WeakMap<
+  FormFieldDto,
+  {
+    mapCustomFieldToZodType?: MapFormFieldToZodFn;
+    fieldTypes?: FieldTypePlugins;
+    zodType: z.ZodTypeAny;
+  }
+>();
+
+/** maps the target field of a rule to a zod type, the type is cached per field so rules don't map it on every evaluation */
+function getRuleZodType(
+  field: FormFieldDto,
+  mapCustomFieldToZodType?: MapFormFieldToZodFn,
+  fieldTypes?: FieldTypePlugins,
+) {
+  const cached = cachedRuleZodTypes.get(field);
+  if (
+    cached &&
+    cached.mapCustomFieldToZodType === mapCustomFieldToZodType &&
+    cached.fieldTypes === fieldTypes
+  ) {
+    return cached.zodType;
+  }
+  const zodType = mapFieldToZod(field, mapCustomFieldToZodType, {
+    fieldTypes,
+  });
+  cachedRuleZodTypes.set(field, {
+    mapCustomFieldToZodType,
+    fieldTypes,
+    zodType,
+  });
+  return zodType;
+}
+
+/** Functions evaluating the condition rule operators, multi-value fields match when any of their values matches
+ * and the negated operators match when none of the values matches, like Umbraco Forms evaluates rules on the server */
 export const FIELD_CONDITION_OPERATOR_FUNCTIONS: {
   [K in FieldConditionRuleOperator]: (
     fieldValue: unknown,
     ruleValue: unknown,
   ) => boolean;
 } = {
-  Is: is,
-  IsNot: not(is),
-  GreaterThen: greaterThan,
-  LessThen: lessThan,
-  Contains: contains,
-  ContainsIgnoreCase: ignoreCase(contains),
-  StartsWith: startsWith,
-  StartsWithIgnoreCase: ignoreCase(startsWith),
-  EndsWith: endsWith,
-  EndsWithIgnoreCase: ignoreCase(endsWith),
-  NotContains: not(contains),
-  NotContainsIgnoreCase: not(ignoreCase(contains)),
-  NotStartsWith: not(startsWith),
-  NotStartsWithIgnoreCase: not(ignoreCase(startsWith)),
-  NotEndsWith: not(endsWith),
-  NotEndsWithIgnoreCase: not(ignoreCase(endsWith)),
+  Is: anyValue(is),
+  IsNot: not(anyValue(is)),
+  GreaterThen: anyValue(greaterThan),
+  LessThen: anyValue(lessThan),
+  Contains: anyValue(contains),
+  ContainsIgnoreCase: anyValue(ignoreCase(contains)),
+  StartsWith: anyValue(startsWith),
+  StartsWithIgnoreCase: anyValue(ignoreCase(startsWith)),
+  EndsWith: anyValue(endsWith),
+  EndsWithIgnoreCase: anyValue(ignoreCase(endsWith)),
+  NotContains: not(anyValue(contains)),
+  NotContainsIgnoreCase: not(anyValue(ignoreCase(contains))),
+  NotStartsWith: not(anyValue(startsWith)),
+  NotStartsWithIgnoreCase: not(anyValue(ignoreCase(startsWith))),
+  NotEndsWith: not(anyValue(endsWith)),
+  NotEndsWithIgnoreCase: not(anyValue(ignoreCase(endsWith))),
 } as const;
 
 function not(fn: (value: unknown, rule: unknown) => boolean) {
   return (value: unknown, rule: unknown) => !fn(value, rule);
 }
 
+function anyValue(fn: (value: unknown, rule: unknown) => boolean) {
+  return (value: unknown, rule: unknown) =>
+    Array.isArray(value)
+      ? // multi-value fields without a selection are compared as an empty value
+        value.length === 0
+        ? fn("", rule)
+        : value.some((item) => fn(item, rule))
+      : fn(value, rule);
+}
+
 function ignoreCase(fn: (value: unknown, rule: unknown) => boolean) {
   return (value: unknown, rule: unknown) =>
     fn(value?.toString()?.toLowerCase(), rule?.toString()?.toLowerCase());
 }
 
 function greaterThan(value: unknown, rule: unknown) {
-  return value && rule ? value > rule : false;
+  const order = compare(value, rule);
+  return order !== undefined && order > 0;
 }
 
 function lessThan(value: unknown, rule: unknown) {
-  return value && rule ? value < rule : false;
+  const order = compare(value, rule);
+  return order !== undefined && order < 0;
+}
+
+/** compares numerically when both values are numbers and by calendar day when both are dates,
+ * returns `undefined` for values that can't be compared, e.g. empty values or text */
+function compare(value: unknown, rule: unknown): number | undefined {
+  const valueNumber = toComparableNumber(value);
+  const ruleNumber = toComparableNumber(rule);
+  if (valueNumber !== undefined && ruleNumber !== undefined) {
+    return valueNumber - ruleNumber;
+  }
+  const valueDate = toComparableDate(value);
+  const ruleDate = toComparableDate(rule);
+  if (valueDate !== undefined && ruleDate !== undefined) {
+    return valueDate.getTime() - ruleDate.getTime();
+  }
+  return undefined;
+}
+
+function toComparableNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return isNaN(value) ? undefined : value;
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const number = Number(value.trim());
+  return isNaN(number) ? undefined : number;
+}
+
+function toComparableDate(value: unknown): Date | undefined {
+  // date fields are coerced to iso dates, other text is not read as a date
+  return value instanceof Date ||
+    (typeof value === "string" && ISO_DATE_PREFIX_PATTERN.test(value.trim()))
+    ? toDateOnly(value)
+    : undefined;
 }
 
 export function is(value: unknown, rule: unknown) {
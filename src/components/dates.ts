@@ -0,0 +1,95 @@
+import { DefaultFieldType, type FormFieldDto } from "./types";
+import { getFieldSettings } from "./field-settings";
+
+/** Range of allowed dates for a date field, each boundary is a date, an iso date (`yyyy-MM-dd`) or a date
+ * relative to the current day such as `today`, `today+30` or `today-1` */
+export interface DateRange {
+  min?: Date | string;
+  max?: Date | string;
+}
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const RELATIVE_DATE_PATTERN = /^today\s*(?:([+-])\s*(\d+))?$/i;
+
+/** creates a date only value, dates without a time are represented as midnight utc so they are the same calendar day in every timezone */
+export function createDateOnly(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // years below 100 are mapped to the 20th century by Date.UTC
+  date.setUTCFullYear(year);
+  return date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+    ? date
+    : undefined;
+}
+
+/** converts a date, an iso date or an iso date time to a date only value, the time of dates is ignored */
+export function toDateOnly(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime())
+      ? undefined
+      : createDateOnly(
+          value.getUTCFullYear(),
+          value.getUTCMonth() + 1,
+          value.getUTCDate(),
+        );
+  }
+  if (typeof value !== "string") return undefined;
+  // the calendar day of iso date times is read as written, regardless of their offset
+  const match = value.trim().slice(0, 10).match(ISO_DATE_PATTERN);
+  if (match) {
+    return createDateOnly(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : toDateOnly(new Date(date));
+}
+
+/** formats a date only value as `yyyy-MM-dd`, the format used by date inputs and form entries */
+export function formatDateOnly(date: Date) {
+  const year = String(date.getUTCFullYear()).padStart(4, "0");
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/** gets the current calendar day in the local timezone as a date only value */
+export function getToday(now: Date = new Date()) {
+  return createDateOnly(
+    now.getFullYear(),
+    now.getMonth() + 1,
+    now.getDate(),
+  ) as Date;
+}
+
+/** resolves a boundary of a date range to a date only value */
+export function resolveDateBoundary(
+  boundary: Date | string | undefined,
+  now?: Date,
+): Date | undefined {
+  if (boundary === undefined || boundary === "") return undefined;
+  if (typeof boundary === "string") {
+    const relative = boundary.trim().match(RELATIVE_DATE_PATTERN);
+    if (relative) {
+      const today = getToday(now);
+      const days = Number(relative[2] ?? 0) * (relative[1] === "-" ? -1 : 1);
+      today.setUTCDate(today.getUTCDate() + days);
+      return today;
+    }
+  }
+  return toDateOnly(boundary);
+}
+
+/** gets the allowed dates of a date field from the configured ranges keyed by alias, falling back to the `minimumDate` and `maximumDate` settings */
+export function getDateRange(
+  field: FormFieldDto,
+  dateRanges?: Record<string, DateRange>,
+  now?: Date,
+): { min?: Date; max?: Date } {
+  if (field?.type?.id !== DefaultFieldType.Date) return {};
+  const settings = getFieldSettings(field, DefaultFieldType.Date);
+  const range = (field?.alias ? dateRanges?.[field.alias] : undefined) ?? {};
+  return {
+    min: resolveDateBoundary(range.min ?? settings.minimumDate, now),
+    max: resolveDateBoundary(range.max ?? settings.maximumDate, now),
+  };
+}
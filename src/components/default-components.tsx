@@ -1,7 +1,16 @@
-import React, { Fragment } from "react";
+import React, { Fragment, useEffect, useRef, useState } from "react";
 import { match } from "ts-pattern";
-import { getAttributesForFieldType, getFieldByZodIssue } from "./field-utils";
+import {
+  getAttributesForFieldType,
+  getFieldByZodIssue,
+  getValueAttributesForFieldType,
+  isPreValueSelected,
+} from "./field-utils";
 import { getIssueId } from "./umbraco-form-to-zod";
+import { getFieldTypePlugin } from "./field-type-plugins";
+import { getFieldSettings, isLabelShown } from "./field-settings";
+import type { FormPageStep } from "./page-navigation";
+import { getFormCulture, isRtlCulture } from "./i18n";
 import type { ZodIssue } from "zod";
 import {
   DefaultFieldType,
@@ -10,7 +19,6 @@ import {
   type FormFieldsetDto,
   type FormFieldsetColumnDto,
   type FormFieldDto,
-  type FieldSettings,
   UmbracoFormConfig,
 } from "./types";
 
@@ -35,12 +43,13 @@ type RenderProps = React.HTMLAttributes<HTMLElement> &
 
 type FormProps = ContextProps & React.FormHTMLAttributes<HTMLFormElement>;
 
-export function Form({ form, ...rest }: FormProps) {
+export function Form({ form, config, ...rest }: FormProps) {
   return (
     <form
       method="post"
       action={`/umbraco/forms/api/v1/entries/${form.id}`}
       target="_blank"
+      dir={isRtlCulture(getFormCulture(config)) ? "rtl" : undefined}
       {...rest}
       id={"form:" + form.id}
       name={form.id}
@@ -155,14 +164,21 @@ export function Field({
   const validationErrors = showValidationErrors ? (
     <span id={getIssueId(field, issues[0])}>{issues?.[0]?.message}</span>
   ) : null;
+  const showLabel = isLabelShown(field);
 
   if (field.type?.id === DefaultFieldType.SingleChoice) {
     const radioGroupId = "radiogroup:" + field.id;
     return (
-      <fieldset role="radiogroup" aria-labelledby={radioGroupId}>
-        <legend id={radioGroupId}>
-          {field.caption} {indicator}
-        </legend>
+      <fieldset
+        role="radiogroup"
+        aria-labelledby={showLabel ? radioGroupId : undefined}
+        aria-label={showLabel ? undefined : field.caption}
+      >
+        {showLabel ? (
+          <legend id={radioGroupId}>
+            {field.caption} {indicator}
+          </legend>
+        ) : null}
         {helpText}
         {children}
         {validationErrors}
@@ -173,10 +189,15 @@ export function Field({
   if (field.type?.id === DefaultFieldType.MultipleChoice) {
     const checkboxGroupId = "checkboxgroup:" + field.id;
     return (
-      <fieldset aria-labelledby={checkboxGroupId}>
-        <legend id={checkboxGroupId}>
-          {field.caption} {indicator}
-        </legend>
+      <fieldset
+        aria-labelledby={showLabel ? checkboxGroupId : undefined}
+        aria-label={showLabel ? undefined : field.caption}
+      >
+        {showLabel ? (
+          <legend id={checkboxGroupId}>
+            {field.caption} {indicator}
+          </legend>
+        ) : null}
         {helpText}
         {children}
         {validationErrors}
@@ -186,9 +207,11 @@ export function Field({
 
   return (
     <Fragment>
-      <label htmlFor={field.id} aria-describedby={helpTextId}>
-        {field.caption} {indicator}
-      </label>
+      {showLabel ? (
+        <label htmlFor={field.id} aria-describedby={helpTextId}>
+          {field.caption} {indicator}
+        </label>
+      ) : null}
       {helpText}
       {children}
       {validationErrors}
@@ -196,13 +219,20 @@ export function Field({
   );
 }
 
-export type FieldTypeProps = Omit<FieldProps, "children" | "condition">;
+export type FieldTypeProps = Omit<FieldProps, "children" | "condition"> & {
+  /** Current value of the field, used as the initial value unless the form is controlled */
+  value?: unknown;
+  /** Whether the value of the field is controlled by the form */
+  isControlled?: boolean;
+};
 
 export function FieldType({
   field,
   issues,
   form,
   config,
+  value,
+  isControlled,
   ...rest
 }: FieldTypeProps): React.ReactNode | undefined {
   const fieldTypeAttributes = getAttributesForFieldType(
@@ -214,76 +244,179 @@ export function FieldType({
 
   const attributes = {
     ...fieldTypeAttributes,
+    ...getValueAttributesForFieldType(field, value, isControlled),
     ...rest,
   };
 
+  // renderers of field type plugins take precedence over the built-in field types
+  const renderedByPlugin = getFieldTypePlugin(
+    field,
+    config?.fieldTypes,
+  )?.render?.({ field, issues, form, config, value, isControlled, ...rest });
+  if (renderedByPlugin !== undefined) return renderedByPlugin;
+
   return match(field?.type?.id)
     .with(
       DefaultFieldType.ShortAnswer,
       DefaultFieldType.Checkbox,
       DefaultFieldType.DataConsent,
       DefaultFieldType.FileUpload,
-      DefaultFieldType.Recaptcha2,
       DefaultFieldType.RecaptchaV3WithScore,
       DefaultFieldType.HiddenField,
       DefaultFieldType.Date,
       DefaultFieldType.Password,
       () => <input {...attributes} />,
     )
-    .with(DefaultFieldType.LongAnswer, DefaultFieldType.RichText, () => (
-      <textarea {...attributes} />
+    .with(DefaultFieldType.Recaptcha2, () => (
+      <CaptchaWidget field={field} config={config} {...attributes} />
     ))
+    .with(DefaultFieldType.LongAnswer, () => <textarea {...attributes} />)
     .with(
       DefaultFieldType.SingleChoice,
       DefaultFieldType.MultipleChoice,
-      (uuid) => (
-        <Fragment>
-          {field?.preValues?.map((preValue) => {
-            const settings = field?.settings as FieldSettings[typeof uuid];
-            const id = preValue.value + ":" + field.id;
-            return (
-              <Fragment key={id}>
-                <label htmlFor={id}>{preValue.caption}</label>
-                <input
-                  defaultChecked={settings.defaultValue === preValue.value}
-                  {...attributes}
-                  id={id}
-                  type={
-                    field.type?.id === DefaultFieldType.MultipleChoice
-                      ? "checkbox"
-                      : "radio"
-                  }
-                  value={preValue.value}
-                />
-              </Fragment>
-            );
-          })}
-        </Fragment>
-      ),
+      (uuid) => {
+        const settings = getFieldSettings(field, uuid);
+        return (
+          <Fragment>
+            {settings.preValues.map((preValue) => {
+              const id = preValue.value + ":" + field.id;
+              const isSelected = isPreValueSelected(
+                value !== undefined || isControlled
+                  ? value
+                  : settings.defaultValue,
+                preValue.value,
+              );
+              return (
+                <Fragment key={id}>
+                  <label htmlFor={id}>{preValue.caption}</label>
+                  <input
+                    {...(isControlled
+                      ? { checked: isSelected, onChange: () => {} }
+                      : { defaultChecked: isSelected })}
+                    {...attributes}
+                    id={id}
+                    type={
+                      field.type?.id === DefaultFieldType.MultipleChoice
+                        ? "checkbox"
+                        : "radio"
+                    }
+                    value={preValue.value}
+                  />
+                </Fragment>
+              );
+            })}
+          </Fragment>
+        );
+      },
     )
-    .with(DefaultFieldType.DropdownList, () => (
-      <select {...attributes}>
-        {field?.preValues?.map((preValue) => (
-          <option key={`${field.id}.${preValue.value}`} value={preValue.value}>
-            {preValue.caption}
-          </option>
-        ))}
-      </select>
-    ))
+    .with(DefaultFieldType.DropdownList, (uuid) => {
+      const settings = getFieldSettings(field, uuid);
+      return (
+        <select {...attributes}>
+          {/* the prompt has an empty value, so required single selects are invalid until an option is chosen */}
+          {settings.selectPrompt && !settings.allowMultipleSelections ? (
+            <option value="">{settings.selectPrompt}</option>
+          ) : null}
+          {settings.preValues.map((preValue) => (
+            <option
+              key={`${field.id}.${preValue.value}`}
+              value={preValue.value}
+            >
+              {preValue.caption}
+            </option>
+          ))}
+        </select>
+      );
+    })
     .with(DefaultFieldType.TitleAndDescription, (uuid) => {
-      const settings = field?.settings as FieldSettings[typeof uuid];
+      const settings = getFieldSettings(field, uuid);
+      const CaptionTag = settings.captionTag;
       return (
         <div>
-          <h2>{settings.caption}</h2>
+          <CaptionTag>{settings.caption}</CaptionTag>
           <p>{settings.bodyText}</p>
         </div>
       );
     })
+    .with(DefaultFieldType.RichText, (uuid) => {
+      const settings = getFieldSettings(field, uuid);
+      // the html is authored by editors in the backoffice, like the rest of the form definition
+      return <div dangerouslySetInnerHTML={{ __html: settings.html }} />;
+    })
     .exhaustive();
 }
 
+export type CaptchaWidgetProps = Pick<ContextProps, "config"> &
+  React.InputHTMLAttributes<HTMLInputElement> & {
+    field: FormFieldDto;
+  };
+
+/** Renders the widget of the configured captcha provider and keeps its token in a hidden input */
+export function CaptchaWidget({ field, config, ...rest }: CaptchaWidgetProps) {
+  // the hidden input is controlled by the token, values from the field attributes are left out
+  const inputProps = { ...rest };
+  delete inputProps.defaultValue;
+  delete inputProps.value;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [token, setToken] = useState("");
+  const { theme, size } = getFieldSettings(field, DefaultFieldType.Recaptcha2);
+  const provider = config?.captcha;
+
+  useEffect(() => {
+    if (!provider || !containerRef.current) return;
+    return provider.renderWidget(containerRef.current, {
+      theme,
+      size,
+      onToken: setToken,
+      onError: () => setToken(""),
+    });
+  }, [provider, theme, size]);
+
+  return (
+    <Fragment>
+      <div ref={containerRef} />
+      <input {...inputProps} type="hidden" value={token} />
+    </Fragment>
+  );
+}
+
+export type StepperProps = React.HTMLAttributes<HTMLElement> &
+  Pick<ContextProps, "form"> &
+  Pick<NavigationProps, "totalPages"> & {
+    steps: FormPageStep[];
+    onStepClick?: (pageIndex: number) => void;
+  };
+
+export function Stepper({
+  form,
+  steps,
+  totalPages,
+  onStepClick,
+  ...rest
+}: StepperProps) {
+  if (totalPages <= 1) return null;
+
+  return (
+    <nav aria-label={form.name ?? undefined} {...rest}>
+      <ol>
+        {steps.map((step) => (
+          <li key={"step." + step.pageIndex} data-status={step.status}>
+            <button
+              type="button"
+              aria-current={step.status === "current" ? "step" : undefined}
+              onClick={() => onStepClick?.(step.pageIndex)}
+            >
+              {step.page.caption || step.stepNumber}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+}
+
 export function SubmitButton(
-  props: React.HTMLAttributes<HTMLButtonElement> &
+  props: Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, "form"> &
     ContextProps &
     NavigationProps,
 ) {
@@ -299,7 +432,7 @@ export function SubmitButton(
 }
 
 export function NextButton(
-  props: React.HTMLAttributes<HTMLButtonElement> & {
+  props: Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, "form"> & {
     form: FormDto;
     currentPage: number;
     totalPages: number;
@@ -317,7 +450,7 @@ export function NextButton(
 }
 
 export function PreviousButton(
-  props: React.HTMLAttributes<HTMLButtonElement> &
+  props: Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, "form"> &
     ContextProps &
     NavigationProps,
 ) {
@@ -345,11 +478,12 @@ export function ValidationSummary(props: ValidationSummaryProps) {
   return (
     <section role="alert">
       <ol>
-        {issues?.map((issue) => {
+        {issues?.map((issue, index) => {
           const field = getFieldByZodIssue(form, issue);
           const id = getIssueId(field, issue);
           return (
-            <li key={id} id={id}>
+            // form level issues share the same id, so the index keeps keys unique
+            <li key={id + "." + index} id={id}>
               {issue.message}
             </li>
           );
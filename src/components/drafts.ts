@@ -0,0 +1,194 @@
+import { getAllFields } from "./field-utils";
+import { DefaultFieldType, type FormDto, type FormValues } from "./types";
+
+/** Storage used for drafts, compatible with `localStorage` and `sessionStorage` */
+export type DraftStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+/** Options for persisting drafts of a form */
+export interface DraftOptions {
+  /** Storage adapter for drafts; defaults to `localStorage` */
+  storage?: DraftStorage;
+  /** Time in milliseconds before a draft expires; defaults to 7 days */
+  maxAge?: number;
+  /** Prefix of the storage key; defaults to `umbraco-form-draft` */
+  keyPrefix?: string;
+  /** Aliases of additional fields that should never be stored */
+  exclude?: string[];
+  /** Store password and file upload fields as well; defaults to `false` */
+  includeSensitiveFields?: boolean;
+}
+
+/** Draft of a form as stored by the storage adapter */
+export interface FormDraft {
+  values: FormValues;
+  currentPage: number;
+  savedAt: number;
+  expiresAt: number;
+}
+
+const DEFAULT_MAX_AGE = 1000 * 60 * 60 * 24 * 7;
+
+/** field types that are excluded from drafts by default, as they hold secrets or values that cannot be serialized */
+const SENSITIVE_FIELD_TYPES: string[] = [
+  DefaultFieldType.Password,
+  DefaultFieldType.FileUpload,
+];
+
+/** field types that are never stored, as their values expire */
+const TRANSIENT_FIELD_TYPES: string[] = [
+  DefaultFieldType.Recaptcha2,
+  DefaultFieldType.RecaptchaV3WithScore,
+];
+
+/** creates a draft storage adapter for `localStorage`, drafts are not stored when it is unavailable */
+export function createLocalStorageAdapter(): DraftStorage {
+  return createWebStorageAdapter(() => window.localStorage);
+}
+
+/** creates a draft storage adapter for `sessionStorage`, drafts are not stored when it is unavailable */
+export function createSessionStorageAdapter(): DraftStorage {
+  return createWebStorageAdapter(() => window.sessionStorage);
+}
+
+/** creates a draft storage adapter that keeps drafts in memory */
+export function createMemoryStorageAdapter(): DraftStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+/** creates a fingerprint of the fields in a form definition, so drafts of an outdated definition are not restored */
+export function getFormFingerprint(form: FormDto): string {
+  const signature = getAllFields(form)
+    ?.map((field) => [field?.id, field?.alias, field?.type?.id].join(":"))
+    .join("|");
+  // djb2 string hash
+  let hash = 5381;
+  for (let i = 0; i < signature.length; i++) {
+    hash = ((hash << 5) + hash + signature.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/** gets the storage key of the draft for a form */
+export function getDraftKey(form: FormDto, options: DraftOptions = {}) {
+  const { keyPrefix = "umbraco-form-draft" } = options;
+  return keyPrefix + ":" + form.id + ":" + getFormFingerprint(form);
+}
+
+/** saves the values and current page of a form as a draft */
+export function saveDraft(
+  form: FormDto,
+  values: FormValues,
+  currentPage: number,
+  options: DraftOptions = {},
+) {
+  const {
+    storage = createLocalStorageAdapter(),
+    maxAge = DEFAULT_MAX_AGE,
+    exclude = [],
+    includeSensitiveFields = false,
+  } = options;
+
+  const excludedTypes = includeSensitiveFields
+    ? TRANSIENT_FIELD_TYPES
+    : [...SENSITIVE_FIELD_TYPES, ...TRANSIENT_FIELD_TYPES];
+  const storedValues: FormValues = {};
+  getAllFields(form)?.forEach((field) => {
+    if (!field?.alias || !(field.alias in values)) return;
+    if (exclude.includes(field.alias)) return;
+    if (excludedTypes.includes(field?.type?.id?.toLowerCase() ?? "")) return;
+    storedValues[field.alias] = values[field.alias];
+  });
+
+  const savedAt = Date.now();
+  const draft: FormDraft = {
+    values: storedValues,
+    currentPage,
+    savedAt,
+    expiresAt: savedAt + maxAge,
+  };
+  try {
+    storage.setItem(
+      getDraftKey(form, options),
+      JSON.stringify(draft, replaceDraftValue),
+    );
+  } catch (e) {
+    // storage can be full or unavailable, drafts are a best effort
+  }
+}
+
+/** loads the draft of a form, expired or unreadable drafts are removed */
+export function loadDraft(
+  form: FormDto,
+  options: DraftOptions = {},
+): FormDraft | undefined {
+  const { storage = createLocalStorageAdapter() } = options;
+  const key = getDraftKey(form, options);
+  try {
+    const item = storage.getItem(key);
+    if (!item) return undefined;
+    const draft = JSON.parse(item, reviveDraftValue) as FormDraft;
+    if (!draft?.values || !(draft.expiresAt > Date.now())) {
+      storage.removeItem(key);
+      return undefined;
+    }
+    return draft;
+  } catch (e) {
+    storage.removeItem(key);
+    return undefined;
+  }
+}
+
+/** removes the draft of a form */
+export function clearDraft(form: FormDto, options: DraftOptions = {}) {
+  const { storage = createLocalStorageAdapter() } = options;
+  try {
+    storage.removeItem(getDraftKey(form, options));
+  } catch (e) {
+    // ignore unavailable storage
+  }
+}
+
+function createWebStorageAdapter(getStorage: () => Storage): DraftStorage {
+  const withStorage = <T>(fn: (storage: Storage) => T, fallback: T) => {
+    try {
+      return typeof window !== "undefined" ? fn(getStorage()) : fallback;
+    } catch (e) {
+      // accessing storage throws when it is disabled by the browser
+      return fallback;
+    }
+  };
+  return {
+    getItem: (key) => withStorage((storage) => storage.getItem(key), null),
+    setItem: (key, value) =>
+      withStorage((storage) => storage.setItem(key, value), undefined),
+    removeItem: (key) =>
+      withStorage((storage) => storage.removeItem(key), undefined),
+  };
+}
+
+/** dates are stored with a marker so they are restored as dates rather than strings */
+function replaceDraftValue(
+  this: Record<string, unknown>,
+  key: string,
+  value: unknown,
+) {
+  const original = this[key];
+  return original instanceof Date ? { $date: original.toISOString() } : value;
+}
+
+function reviveDraftValue(_: string, value: unknown) {
+  if (
+    value &&
+    typeof value === "object" &&
+    "$date" in value &&
+    typeof value.$date === "string"
+  ) {
+    return new Date(value.$date);
+  }
+  return value;
+}
@@ -0,0 +1,319 @@
+import { match } from "ts-pattern";
+import { DefaultFieldType, type FormFieldDto } from "./types";
+
+/** Tags the caption of title and description fields can be rendered with */
+export type CaptionTag = "h1" | "h2" | "h3" | "h4" | "h5" | "h6" | "p" | "span";
+
+/** Prevalue of a choice field */
+export interface PreValue {
+  value: string;
+  caption: string;
+}
+
+/** Field type settings normalized to typed values, raw settings are strings in the form definition
+ * @see https://docs.umbraco.com/umbraco-forms/developer/configuration/type-details#field-types */
+export interface NormalizedFieldSettings {
+  [DefaultFieldType.ShortAnswer]: {
+    defaultValue: string;
+    placeholder: string;
+    /** Whether the label is rendered, `true` when the setting is empty */
+    showLabel: boolean;
+    /** Maximum number of characters, `undefined` when empty or not a non-negative integer */
+    maximumLength?: number;
+    /** Type of the input, e.g. `email` or `tel`, defaults to `text` */
+    fieldType: string;
+    autocompleteAttribute: string;
+  };
+  [DefaultFieldType.LongAnswer]: {
+    defaultValue: string;
+    placeholder: string;
+    showLabel: boolean;
+    autocompleteAttribute: string;
+    numberOfRows?: number;
+    maximumLength?: number;
+  };
+  [DefaultFieldType.HiddenField]: {
+    defaultValue: string;
+  };
+  [DefaultFieldType.Checkbox]: {
+    caption: string;
+    defaultValue: boolean;
+    showLabel: boolean;
+  };
+  [DefaultFieldType.DropdownList]: {
+    /** Prevalue selected by default, a list of prevalues when multiple selections are allowed */
+    defaultValue: string | string[];
+    allowMultipleSelections: boolean;
+    showLabel: boolean;
+    autocompleteAttribute: string;
+    selectPrompt: string;
+    preValues: PreValue[];
+  };
+  [DefaultFieldType.MultipleChoice]: {
+    /** Prevalues selected by default, the raw setting is a comma separated list */
+    defaultValue: string[];
+    showLabel: boolean;
+    preValues: PreValue[];
+  };
+  [DefaultFieldType.DataConsent]: {
+    acceptCopy: string;
+    showLabel: boolean;
+  };
+  [DefaultFieldType.FileUpload]: {
+    selectFilesListHeading: string;
+  };
+  [DefaultFieldType.Recaptcha2]: {
+    /** Color theme of the widget in lower case, e.g. `light` or `dark` */
+    theme: string;
+    /** Size of the widget in lower case, e.g. `normal` or `compact` */
+    size: string;
+    errorMessage: string;
+  };
+  [DefaultFieldType.RecaptchaV3WithScore]: {
+    scoreThreshold?: number;
+    errorMessage: string;
+    saveScore: boolean;
+  };
+  [DefaultFieldType.Date]: {
+    placeholder: string;
+    minimumDate?: string;
+    maximumDate?: string;
+  };
+  [DefaultFieldType.Password]: {
+    placeholder: string;
+  };
+  [DefaultFieldType.RichText]: {
+    showLabel: boolean;
+    html: string;
+  };
+  [DefaultFieldType.SingleChoice]: {
+    defaultValue: string;
+    showLabel: boolean;
+    preValues: PreValue[];
+  };
+  [DefaultFieldType.TitleAndDescription]: {
+    /** Tag of the caption, defaults to `h2` when the setting is empty or not a known tag */
+    captionTag: CaptionTag;
+    caption: string;
+    bodyText: string;
+    showLabel: boolean;
+  };
+}
+
+const CAPTION_TAGS: CaptionTag[] = [
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "p",
+  "span",
+];
+const TRUE_VALUES = ["true", "on", "yes", "1"];
+const DEFAULT_FIELD_TYPE_IDS: string[] = Object.values(DefaultFieldType);
+
+const cachedSettings = new WeakMap<
+  FormFieldDto,
+  { type: DefaultFieldType; settings: unknown }
+>();
+
+/**
+ * Gets the settings of a field normalized to typed values for a built-in field type.
+ * The result is cached per field, fields with resolved magic strings are new objects and are normalized again.
+ *
+ * @param {FormFieldDto} field - The field to get the settings of.
+ * @param {DefaultFieldType} type - The field type to normalize the settings for, usually the type of the field.
+ * @returns The normalized settings, missing settings are empty strings, `false` or `undefined`.
+ */
+export function getFieldSettings<TType extends DefaultFieldType>(
+  field: FormFieldDto,
+  type: TType,
+): NormalizedFieldSettings[TType] {
+  const cached = cachedSettings.get(field);
+  if (cached?.type === type) {
+    return cached.settings as NormalizedFieldSettings[TType];
+  }
+  const settings = normalizeFieldSettings(field, type);
+  if (field) cachedSettings.set(field, { type, settings });
+  return settings;
+}
+
+/**
+ * Checks if the label of a field is shown, based on the `showLabel` setting of its field type.
+ * Field types without the setting and custom field types always show their label.
+ *
+ * @param {FormFieldDto} field - The field to check.
+ * @returns {boolean} True if the label should be rendered, false otherwise.
+ */
+export function isLabelShown(field: FormFieldDto): boolean {
+  const typeId = field?.type?.id?.toLowerCase();
+  if (!DEFAULT_FIELD_TYPE_IDS.includes(typeId ?? "")) return true;
+  const settings = getFieldSettings(field, typeId as DefaultFieldType);
+  return !("showLabel" in settings) || settings.showLabel;
+}
+
+function normalizeFieldSettings<TType extends DefaultFieldType>(
+  field: FormFieldDto,
+  type: TType,
+): NormalizedFieldSettings[TType] {
+  const raw = (field?.settings ?? {}) as Record<string, unknown>;
+  const string = (key: string) => parseStringSetting(raw[key]);
+  const boolean = (key: string) => parseBooleanSetting(raw[key]);
+  const number = (key: string) => parseNumberSetting(raw[key]);
+  const count = (key: string) => parseCountSetting(raw[key]);
+  const list = (key: string) => parseListSetting(raw[key]);
+  // labels are shown unless the setting is turned off, definitions often leave it empty
+  const showLabel = () => parseBooleanSetting(raw.showLabel, true);
+  // prevalues of the field take precedence over prevalues stored in the settings
+  const preValues = () =>
+    parsePreValues(field?.preValues?.length ? field.preValues : raw.preValues);
+
+  const settings = match(type as DefaultFieldType)
+    .returnType<NormalizedFieldSettings[DefaultFieldType]>()
+    .with(DefaultFieldType.ShortAnswer, () => ({
+      defaultValue: string("defaultValue"),
+      placeholder: string("placeholder"),
+      showLabel: showLabel(),
+      maximumLength: count("maximumLength"),
+      fieldType: string("fieldType") || "text",
+      autocompleteAttribute: string("autocompleteAttribute"),
+    }))
+    .with(DefaultFieldType.LongAnswer, () => ({
+      defaultValue: string("defaultValue"),
+      placeholder: string("placeholder"),
+      showLabel: showLabel(),
+      autocompleteAttribute: string("autocompleteAttribute"),
+      numberOfRows: count("numberOfRows"),
+      maximumLength: count("maximumLength"),
+    }))
+    .with(DefaultFieldType.HiddenField, () => ({
+      defaultValue: string("defaultValue"),
+    }))
+    .with(DefaultFieldType.Checkbox, () => ({
+      caption: string("caption"),
+      defaultValue: boolean("defaultValue"),
+      showLabel: showLabel(),
+    }))
+    .with(DefaultFieldType.DropdownList, () => ({
+      defaultValue: boolean("allowMultipleSelections")
+        ? list("defaultValue")
+        : string("defaultValue"),
+      allowMultipleSelections: boolean("allowMultipleSelections"),
+      showLabel: showLabel(),
+      autocompleteAttribute: string("autocompleteAttribute"),
+      selectPrompt: string("selectPrompt"),
+      preValues: preValues(),
+    }))
+    .with(DefaultFieldType.MultipleChoice, () => ({
+      defaultValue: list("defaultValue"),
+      showLabel: showLabel(),
+      preValues: preValues(),
+    }))
+    .with(DefaultFieldType.DataConsent, () => ({
+      acceptCopy: string("acceptCopy"),
+      showLabel: showLabel(),
+    }))
+    .with(DefaultFieldType.FileUpload, () => ({
+      selectFilesListHeading: string("selectFilesListHeading"),
+    }))
+    .with(DefaultFieldType.Recaptcha2, () => ({
+      theme: string("theme").toLowerCase(),
+      size: string("size").toLowerCase(),
+      errorMessage: string("errorMessage"),
+    }))
+    .with(DefaultFieldType.RecaptchaV3WithScore, () => ({
+      scoreThreshold: number("scoreThreshold"),
+      errorMessage: string("errorMessage"),
+      saveScore: boolean("saveScore"),
+    }))
+    .with(DefaultFieldType.Date, () => ({
+      placeholder: string("placeholder"),
+      minimumDate: string("minimumDate") || undefined,
+      maximumDate: string("maximumDate") || undefined,
+    }))
+    .with(DefaultFieldType.Password, () => ({
+      placeholder: string("placeholder"),
+    }))
+    .with(DefaultFieldType.RichText, () => ({
+      showLabel: showLabel(),
+      html: string("html"),
+    }))
+    .with(DefaultFieldType.SingleChoice, () => ({
+      defaultValue: string("defaultValue"),
+      showLabel: showLabel(),
+      preValues: preValues(),
+    }))
+    .with(DefaultFieldType.TitleAndDescription, () => ({
+      captionTag: parseCaptionTag(raw.captionTag),
+      caption: string("caption"),
+      bodyText: string("bodyText"),
+      showLabel: showLabel(),
+    }))
+    .exhaustive();
+
+  return settings as NormalizedFieldSettings[TType];
+}
+
+function parseStringSetting(value: unknown): string {
+  return value === undefined || value === null ? "" : String(value);
+}
+
+/** parses a checkbox setting, which is stored as `True`/`False`, `on` or an empty string */
+function parseBooleanSetting(value: unknown, emptyValue = false): boolean {
+  if (typeof value === "boolean") return value;
+  const normalized = parseStringSetting(value).trim().toLowerCase();
+  if (normalized === "") return emptyValue;
+  return TRUE_VALUES.includes(normalized);
+}
+
+function parseNumberSetting(value: unknown): number | undefined {
+  if (typeof value === "number") return isNaN(value) ? undefined : value;
+  const trimmed = parseStringSetting(value).trim();
+  return /^-?\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : undefined;
+}
+
+/** parses a count such as a maximum length or a number of rows, only non-negative integers are counts */
+function parseCountSetting(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isInteger(value) && value >= 0 ? value : undefined;
+  }
+  const trimmed = parseStringSetting(value).trim();
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : undefined;
+}
+
+/** parses a comma separated list, such as the default values of fields with multiple values */
+function parseListSetting(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(parseStringSetting);
+  return parseStringSetting(value)
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseCaptionTag(value: unknown): CaptionTag {
+  const tag = parseStringSetting(value).trim().toLowerCase();
+  return CAPTION_TAGS.find((captionTag) => captionTag === tag) ?? "h2";
+}
+
+/** parses prevalues given as an array of values or `{ value, caption }` objects, or as such an array in json */
+function parsePreValues(value: unknown): PreValue[] {
+  let preValues = value;
+  if (typeof preValues === "string") {
+    try {
+      preValues = JSON.parse(preValues);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(preValues)) return [];
+  return preValues.flatMap((preValue): PreValue[] => {
+    if (typeof preValue === "string" || typeof preValue === "number") {
+      return [{ value: String(preValue), caption: String(preValue) }];
+    }
+    if (!preValue || typeof preValue !== "object") return [];
+    const value = parseStringSetting(preValue.value);
+    const caption = parseStringSetting(preValue.caption);
+    return [{ value, caption: caption || value }];
+  });
+}
@@ -0,0 +1,68 @@
+import type React from "react";
+import type { z } from "zod";
+import type {
+  FormDto,
+  FormEntryFileDto,
+  FormFieldDto,
+  UmbracoFormConfig,
+} from "./types";
+import type { FieldTypeProps } from "./default-components";
+import type {
+  CoerceFormDataOptions,
+  UmbracoFormToZodOptions,
+} from "./umbraco-form-to-zod";
+
+/** Plugin bundling everything needed to support a field type, every hook is optional and falls back to the built-in behaviour */
+export interface FieldTypePlugin {
+  /** maps the field to a zod type, fields that are not required are made optional afterwards */
+  mapToZod?: (
+    field: FormFieldDto,
+    options?: UmbracoFormToZodOptions,
+  ) => z.ZodTypeAny;
+  /** builds the html attributes of the input from the default attributes, such as `name`, `id` and the aria attributes */
+  getAttributes?: (
+    field: FormFieldDto,
+    attributes: React.AllHTMLAttributes<HTMLElement>,
+    context: {
+      issues: z.ZodIssue[] | undefined;
+      form: FormDto;
+      config: UmbracoFormConfig;
+    },
+  ) => React.AllHTMLAttributes<HTMLElement>;
+  /** renders the input, return `undefined` to fall back to the default renderer */
+  render?: (props: FieldTypeProps) => React.ReactNode | undefined;
+  /** coerces the submitted value, multiple values are passed as an array when the zod type of the field is an array */
+  coerceValue?: (
+    value: FormDataEntryValue | FormDataEntryValue[] | null,
+    field: FormFieldDto,
+    options?: CoerceFormDataOptions,
+  ) => unknown;
+  /** coerces the value of the field before it is compared in a condition rule */
+  coerceConditionFieldValue?: (value: unknown, field: FormFieldDto) => unknown;
+  /** coerces the value of a condition rule targeting the field */
+  coerceConditionRuleValue?: (
+    value: string | undefined,
+    field: FormFieldDto,
+  ) => unknown;
+  /** serializes the coerced value to the values of a form entry */
+  serialize?: (
+    value: unknown,
+    field: FormFieldDto,
+  ) => string[] | FormEntryFileDto[] | Promise<string[] | FormEntryFileDto[]>;
+}
+
+/** Field type plugins keyed by field type id, plugins registered for a built-in field type replace its behaviour */
+export type FieldTypePlugins = Record<string, FieldTypePlugin>;
+
+/** gets the plugin registered for the type of a field, ids are compared case insensitively */
+export function getFieldTypePlugin(
+  field: { type?: { id?: string } } | undefined,
+  fieldTypes?: FieldTypePlugins,
+): FieldTypePlugin | undefined {
+  const typeId = field?.type?.id?.toLowerCase();
+  if (!typeId || !fieldTypes) return undefined;
+  return (
+    fieldTypes[typeId] ??
+    Object.entries(fieldTypes).find(([id]) => id.toLowerCase() === typeId)?.[1]
+  );
+}
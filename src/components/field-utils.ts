@@ -1,16 +1,22 @@
 import { match } from "ts-pattern";
-import { isConditionFulfilled } from "./conditions";
+import {
+  type ConditionOptions,
+  isConditionFulfilled,
+  resolveConditionalData,
+} from "./conditions";
 import {
   type FormFieldDto,
   type FormDto,
   type FormPageDto,
   type DtoWithCondition,
-  type FieldSettings,
   DefaultFieldType,
   UmbracoFormConfig,
 } from "./types";
 import { z } from "zod";
 import { getIssueId, type MapFormFieldToZodFn } from "./umbraco-form-to-zod";
+import { formatDateOnly, getDateRange } from "./dates";
+import { getFieldTypePlugin } from "./field-type-plugins";
+import { getFieldSettings, isLabelShown } from "./field-settings";
 
 const cachedFieldsById = new WeakMap<FormDto, Map<string, FormFieldDto>>();
 const cachedFieldsByAlias = new WeakMap<FormDto, Map<string, FormFieldDto>>();
@@ -124,23 +130,52 @@ export function getFieldByZodIssue(form: FormDto, issue: z.ZodIssue) {
   const alias = issue.path.join(".");
   return getFieldByAlias(form, alias);
 }
+
+/** checks if a field renders an input per prevalue, such as single choice and multiple choice fields */
+function isChoiceField(field: FormFieldDto) {
+  const typeId = field?.type?.id?.toLowerCase();
+  return (
+    typeId === DefaultFieldType.SingleChoice ||
+    typeId === DefaultFieldType.MultipleChoice
+  );
+}
+
+/**
+ * Checks if a field only displays content, such as title and description or rich text fields.
+ * These fields have no value, so they are neither validated nor submitted.
+ *
+ * @param {FormFieldDto} [field] - The field to check.
+ * @returns {boolean} True if the field is display only, false otherwise.
+ */
+export function isDisplayOnlyField(field?: FormFieldDto): boolean {
+  const typeId = field?.type?.id?.toLowerCase();
+  return (
+    typeId === DefaultFieldType.TitleAndDescription ||
+    typeId === DefaultFieldType.RichText
+  );
+}
+
 /**
  * Filters form fields based on conditions.
  *
  * @param {FormDto} form - The form definition.
  * @param {Record<string, unknown>} data - The data to check against the conditions.
  * @param {MapFormFieldToZodFn} [mapCustomFieldToZodType] - Optional mapping of custom fields to Zod validation schema.
+ * @param {ConditionOptions} [options] - Optional custom condition rule operators and field type plugins.
  * @returns {FormFieldDto[]} An array of form fields that meet the specified conditions.
  */
 export function filterFieldsByConditions(
   form: FormDto,
   data: Record<string, unknown>,
   mapCustomFieldToZodType?: MapFormFieldToZodFn,
+  options?: ConditionOptions,
 ): FormFieldDto[] {
+  const isFulfilled = (dto: DtoWithCondition, data: Record<string, unknown>) =>
+    isConditionFulfilled(dto, form, data, mapCustomFieldToZodType, options);
+  // values of hidden fields don't count, so conditions depending on them are resolved as if they were empty
+  const resolvedData = resolveConditionalData(form, data, isFulfilled);
   const checkCondition = (dto?: DtoWithCondition) =>
-    dto
-      ? isConditionFulfilled(dto, form, data, mapCustomFieldToZodType)
-      : false;
+    dto ? isFulfilled(dto, resolvedData) : false;
 
   return form?.pages
     ?.filter(checkCondition)
@@ -180,77 +215,82 @@ export function getAttributesForFieldType(
       shouldValidate && shouldUseNativeValidation && field.required
         ? field.required
         : undefined,
-    ["aria-invalid"]: shouldValidate ? hasIssues : undefined,
+    // issues can also originate from the server when client-side validation is disabled
+    ["aria-invalid"]: shouldValidate || hasIssues ? hasIssues : undefined,
     ["aria-errormessage"]:
       // only adds error message if no error elements are present in the DOM
-      shouldValidate && hasIssues && errorsAreHidden
-        ? issues[0].message
-        : undefined,
+      hasIssues && errorsAreHidden ? issues[0].message : undefined,
     // show only aria-describedby if error elements are present in the DOM
     ["aria-describedby"]:
-      shouldValidate &&
-      hasIssues &&
-      (rendersOnlySummary || rendersOnlyLabelError)
+      hasIssues && (rendersOnlySummary || rendersOnlyLabelError)
         ? getIssueId(field, issues[0])
         : undefined,
+    // fields without a rendered label are named by their caption, choice fields are named by their fieldset instead
+    ["aria-label"]:
+      isLabelShown(field) || isChoiceField(field) ? undefined : field.caption,
   };
 
-  const defaultValue =
-    "defaultValue" in field.settings ? field.settings.defaultValue : undefined;
-
   const textAttributes = match(field?.type?.id)
-    .with(DefaultFieldType.ShortAnswer, DefaultFieldType.LongAnswer, (id) => {
-      const settings = field?.settings as FieldSettings[typeof id];
-      return {
-        autoComplete: settings?.autocompleteAttribute || undefined,
-        placeholder: field.placeholder || undefined,
-        pattern:
-          shouldValidate && shouldUseNativeValidation && field.pattern
-            ? field.pattern
-            : undefined,
-        maxLength:
-          shouldValidate && shouldUseNativeValidation && settings?.maximumLength
-            ? parseInt(settings?.maximumLength)
-            : undefined,
-      };
-    })
+    .with(
+      DefaultFieldType.ShortAnswer,
+      DefaultFieldType.LongAnswer,
+      DefaultFieldType.Password,
+      (id) => {
+        const settings = getFieldSettings(field, id);
+        return {
+          // password fields have no autocomplete or maximum length setting
+          autoComplete:
+            ("autocompleteAttribute" in settings &&
+              settings.autocompleteAttribute) ||
+            undefined,
+          placeholder: field.placeholder || undefined,
+          pattern:
+            shouldValidate && shouldUseNativeValidation && field.pattern
+              ? field.pattern
+              : undefined,
+          maxLength:
+            shouldValidate &&
+            shouldUseNativeValidation &&
+            "maximumLength" in settings
+              ? settings.maximumLength
+              : undefined,
+        };
+      },
+    )
     .otherwise(() => {});
 
-  return match(field?.type?.id.toLowerCase())
+  const attributes = match(field?.type?.id.toLowerCase())
     .with(DefaultFieldType.ShortAnswer, (id) => {
-      const settings = field?.settings as FieldSettings[typeof id];
+      const settings = getFieldSettings(field, id);
       return {
-        type: settings?.fieldType || "text",
+        type: settings.fieldType,
         ...commonAttributes,
-        defaultValue,
+        defaultValue: settings.defaultValue,
         ...textAttributes,
       } satisfies React.InputHTMLAttributes<HTMLInputElement>;
     })
     .with(DefaultFieldType.LongAnswer, (id) => {
-      const settings = field?.settings as FieldSettings[typeof id];
+      const settings = getFieldSettings(field, id);
       return {
-        defaultValue,
+        defaultValue: settings.defaultValue,
         ...textAttributes,
         ...commonAttributes,
-        rows: settings?.numberOfRows
-          ? parseInt(settings.numberOfRows)
-          : undefined,
+        rows: settings.numberOfRows,
       } satisfies React.TextareaHTMLAttributes<HTMLTextAreaElement>;
     })
     .with(DefaultFieldType.MultipleChoice, () => ({
       type: "radio",
       ...commonAttributes,
     }))
-    .with(
-      DefaultFieldType.Checkbox,
-      DefaultFieldType.DataConsent,
-      () =>
-        ({
-          type: "checkbox",
-          defaultChecked: !!defaultValue,
-          ...commonAttributes,
-        }) satisfies React.InputHTMLAttributes<HTMLInputElement>,
-    )
+    .with(DefaultFieldType.Checkbox, DefaultFieldType.DataConsent, (id) => {
+      const settings = getFieldSettings(field, id);
+      return {
+        type: "checkbox",
+        // data consent fields have no default value
+        defaultChecked: "defaultValue" in settings && settings.defaultValue,
+        ...commonAttributes,
+      } satisfies React.InputHTMLAttributes<HTMLInputElement>;
+    })
     .with(
       DefaultFieldType.Recaptcha2,
       DefaultFieldType.RecaptchaV3WithScore,
@@ -261,33 +301,134 @@ export function getAttributesForFieldType(
         }) satisfies React.InputHTMLAttributes<HTMLInputElement>,
     )
     .with(DefaultFieldType.DropdownList, (id) => {
-      const settings = field?.settings as FieldSettings[typeof id];
+      const settings = getFieldSettings(field, id);
       return {
-        defaultValue,
+        defaultValue: settings.defaultValue,
         ...commonAttributes,
-        multiple: !!settings?.allowMultipleSelections ?? false,
+        multiple: settings.allowMultipleSelections,
       } satisfies React.SelectHTMLAttributes<HTMLSelectElement>;
     })
-    .with(DefaultFieldType.Date, () => ({
-      type: "date",
-      ...commonAttributes,
-    }))
-    .with(DefaultFieldType.Password, () => ({
-      type: "password",
-      ...commonAttributes,
-    }))
-    .with(DefaultFieldType.RichText, () => ({
-      type: "textarea",
-      ...commonAttributes,
-    }))
+    .with(DefaultFieldType.Date, () => {
+      const { min, max } = getDateRange(field, config.dateRanges);
+      return {
+        type: "date",
+        ...commonAttributes,
+        min: min ? formatDateOnly(min) : undefined,
+        max: max ? formatDateOnly(max) : undefined,
+      } satisfies React.InputHTMLAttributes<HTMLInputElement>;
+    })
+    .with(
+      DefaultFieldType.Password,
+      () =>
+        ({
+          type: "password",
+          ...commonAttributes,
+          ...textAttributes,
+        }) satisfies React.InputHTMLAttributes<HTMLInputElement>,
+    )
+    .with(
+      DefaultFieldType.HiddenField,
+      () =>
+        ({
+          type: "hidden",
+          ...commonAttributes,
+          defaultValue: getFieldSettings(field, DefaultFieldType.HiddenField)
+            .defaultValue,
+        }) satisfies React.InputHTMLAttributes<HTMLInputElement>,
+    )
+    // rich text fields only display content and have no input
+    .with(DefaultFieldType.RichText, () => ({}))
     .with(
       DefaultFieldType.FileUpload,
       () =>
         ({
           type: "file",
           ...commonAttributes,
-          accept: field?.fileUploadOptions?.allowedUploadExtensions?.join(","),
+          multiple: field?.fileUploadOptions?.allowMultipleFileUploads,
+          accept: field?.fileUploadOptions?.allowAllUploadExtensions
+            ? undefined
+            : field?.fileUploadOptions?.allowedUploadExtensions
+                ?.map((extension) => "." + extension.replace(/^\./, ""))
+                .join(","),
         }) satisfies React.InputHTMLAttributes<HTMLInputElement>,
     )
     .otherwise(() => commonAttributes);
+
+  const plugin = getFieldTypePlugin(field, config?.fieldTypes);
+  return plugin?.getAttributes
+    ? (plugin.getAttributes(field, attributes, {
+        issues,
+        form,
+        config,
+      }) as typeof attributes)
+    : attributes;
 }
+
+/**
+ * Maps a field value to the value attributes of a field type.
+ * Controlled forms render `value`/`checked`, otherwise the value is only used as the initial `defaultValue`/`defaultChecked`.
+ * Choice fields are selected per option with `isPreValueSelected`, file inputs cannot be given a value.
+ *
+ * @param {FormFieldDto} field - The field to get the value attributes for.
+ * @param {unknown} value - The coerced value of the field.
+ * @param {boolean} [isControlled] - Whether the form values are controlled.
+ * @returns {CommonAttributes} The value attributes for the field type.
+ */
+export function getValueAttributesForFieldType(
+  field: FormFieldDto,
+  value: unknown,
+  isControlled: boolean = false,
+): CommonAttributes {
+  if (value === undefined && !isControlled) return {};
+  // changes are handled by the form, this only keeps react from treating controlled fields as read-only
+  const onChange = isControlled ? ignoreChange : undefined;
+
+  return match(field?.type?.id)
+    .with(
+      DefaultFieldType.SingleChoice,
+      DefaultFieldType.MultipleChoice,
+      DefaultFieldType.FileUpload,
+      DefaultFieldType.TitleAndDescription,
+      DefaultFieldType.RichText,
+      () => ({}),
+    )
+    .with(DefaultFieldType.Checkbox, DefaultFieldType.DataConsent, () =>
+      isControlled
+        ? { checked: !!value, defaultChecked: undefined, onChange }
+        : { defaultChecked: !!value },
+    )
+    .otherwise(() => {
+      const formattedValue = formatFieldValue(value);
+      return isControlled
+        ? { value: formattedValue, defaultValue: undefined, onChange }
+        : { defaultValue: formattedValue };
+    });
+}
+
+/**
+ * Checks if a prevalue is selected by the value of a choice field.
+ *
+ * @param {unknown} value - The coerced value of the field, a single value or an array of values.
+ * @param {string} [preValue] - The prevalue to check.
+ * @returns {boolean} True if the prevalue is selected, false otherwise.
+ */
+export function isPreValueSelected(value: unknown, preValue?: string): boolean {
+  if (preValue === undefined) return false;
+  return Array.isArray(value)
+    ? value.some((item) => String(item) === preValue)
+    : value !== undefined && value !== null && String(value) === preValue;
+}
+
+/** formats a coerced field value as an input value */
+function formatFieldValue(value: unknown): string | string[] {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) {
+    return value.map((item) => formatFieldValue(item) as string);
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? "" : formatDateOnly(value);
+  }
+  return String(value);
+}
+
+function ignoreChange() {}
@@ -0,0 +1,168 @@
+import { useEffect, useRef, useState } from "react";
+import type {
+  FormLifecycleDetails,
+  UseUmbracoFormOptions,
+} from "./use-umbraco-form";
+
+/** Type of an analytics event */
+export type FormAnalyticsEventType =
+  | "field_change"
+  | "page_change"
+  | "validation_failed"
+  | "condition_visibility_change"
+  | "submit_success"
+  | "submit_error"
+  | "abandon";
+
+/** Analytics event derived from the lifecycle callbacks, field values are never included */
+export interface FormAnalyticsEvent {
+  type: FormAnalyticsEventType;
+  formId?: string;
+  /** Index of the page in the form definition */
+  pageIndex: number;
+  pageCaption?: string;
+  /** Alias of the field the event relates to, for abandonment the last field that was changed */
+  fieldAlias?: string;
+  /** Time of the event in milliseconds since the epoch */
+  timestamp: number;
+  /** Milliseconds spent on the page, for page changes the time spent on the page that was left */
+  timeOnPage: number;
+  /** Milliseconds since the analytics were created */
+  totalTime: number;
+  /** Additional data of the event, e.g. the page navigated to or the aliases of invalid fields */
+  data?: Record<string, unknown>;
+}
+
+/** Options for the form analytics adapter */
+export interface FormAnalyticsOptions {
+  /** Clock used to measure timings; defaults to `Date.now` */
+  now?: () => number;
+}
+
+/** Lifecycle callbacks that are passed to `UmbracoForm` or `useUmbracoForm` */
+export type FormAnalyticsCallbacks = Required<
+  Pick<
+    UseUmbracoFormOptions,
+    | "onFieldChange"
+    | "onPageChange"
+    | "onValidationFailed"
+    | "onConditionVisibilityChange"
+    | "onSubmitSuccess"
+    | "onSubmitError"
+  >
+>;
+
+/** Analytics adapter that turns lifecycle callbacks into a stream of events */
+export interface FormAnalytics extends FormAnalyticsCallbacks {
+  /** tracks an `abandon` event when a field was changed but the form was not submitted successfully */
+  abandon(): void;
+}
+
+/** creates lifecycle callbacks that send analytics events with timings to the `track` function */
+export function createFormAnalytics(
+  track: (event: FormAnalyticsEvent) => void,
+  options: FormAnalyticsOptions = {},
+): FormAnalytics {
+  const { now = Date.now } = options;
+  const startedAt = now();
+  let pageStartedAt = startedAt;
+  let lastDetails: FormLifecycleDetails | undefined;
+  let lastFieldAlias: string | undefined;
+  let isCompleted = false;
+
+  const emit = (
+    type: FormAnalyticsEventType,
+    details: FormLifecycleDetails,
+    event: Pick<FormAnalyticsEvent, "fieldAlias" | "data"> = {},
+  ) => {
+    const timestamp = now();
+    lastDetails = details;
+    track({
+      type,
+      formId: details.formId,
+      pageIndex: details.pageIndex,
+      pageCaption: details.page?.caption,
+      timestamp,
+      timeOnPage: timestamp - pageStartedAt,
+      totalTime: timestamp - startedAt,
+      ...event,
+    });
+  };
+
+  return {
+    onFieldChange(alias, _, details) {
+      lastFieldAlias = alias;
+      emit("field_change", details, { fieldAlias: alias });
+    },
+    onPageChange(from, to, details) {
+      emit("page_change", details, {
+        data: { from, to, fromPageCaption: details.fromPage?.caption },
+      });
+      pageStartedAt = now();
+    },
+    onValidationFailed(issues, details) {
+      emit("validation_failed", details, {
+        fieldAlias: details.fields[0]?.alias,
+        data: {
+          issueCount: issues.length,
+          fieldAliases: details.fields.map((field) => field.alias),
+        },
+      });
+    },
+    onConditionVisibilityChange(dto, visible, details) {
+      emit("condition_visibility_change", details, {
+        fieldAlias: "alias" in dto ? dto.alias : undefined,
+        data: {
+          kind: details.kind,
+          id: "id" in dto ? dto.id : undefined,
+          caption: dto.caption,
+          visible,
+        },
+      });
+    },
+    onSubmitSuccess(_, details) {
+      isCompleted = true;
+      emit("submit_success", details);
+    },
+    onSubmitError(error, details) {
+      emit("submit_error", details, {
+        data: {
+          status:
+            error && typeof error === "object" && "status" in error
+              ? error.status
+              : undefined,
+        },
+      });
+    },
+    abandon() {
+      if (isCompleted || !lastDetails || !lastFieldAlias) return;
+      // abandonment is only tracked once
+      isCompleted = true;
+      emit("abandon", lastDetails, { fieldAlias: lastFieldAlias });
+    },
+  };
+}
+
+/** creates form analytics for a component, abandonment is tracked when the component unmounts or the page is hidden */
+export function useFormAnalytics(
+  track: (event: FormAnalyticsEvent) => void,
+  options?: FormAnalyticsOptions,
+): FormAnalyticsCallbacks {
+  const trackRef = useRef(track);
+  trackRef.current = track;
+  const [{ abandon, ...callbacks }] = useState(() =>
+    createFormAnalytics((event) => trackRef.current(event), options),
+  );
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    window.addEventListener("pagehide", abandon);
+    return () => {
+      window.removeEventListener("pagehide", abandon);
+      abandon();
+    };
+  }, [abandon]);
+
+  // the callbacks are returned without `abandon`, so they can be spread onto `UmbracoForm`
+  return callbacks;
+}
@@ -0,0 +1,17 @@
+import React from "react";
+import type { UmbracoFormContext } from "./types";
+import { FormContext } from "./use-form-context";
+
+export type UmbracoFormProviderProps = {
+  /** State returned by `useUmbracoForm` */
+  value: UmbracoFormContext;
+  children?: React.ReactNode;
+};
+
+/** Provides the form state to nested components, `UmbracoForm` renders it automatically */
+export function UmbracoFormProvider({
+  value,
+  children,
+}: UmbracoFormProviderProps) {
+  return <FormContext.Provider value={value}>{children}</FormContext.Provider>;
+}
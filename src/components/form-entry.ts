@@ -0,0 +1,103 @@
+import { getAllFields, isDisplayOnlyField } from "./field-utils";
+import { formatDateOnly } from "./dates";
+import {
+  type FieldTypePlugins,
+  getFieldTypePlugin,
+} from "./field-type-plugins";
+import {
+  DefaultFieldType,
+  type FormDto,
+  type FormEntryDto,
+  type FormEntryFileDto,
+} from "./types";
+
+type FormEntryValues = NonNullable<FormEntryDto["values"]>;
+
+/** key of the captcha token in the values of a form entry
+ * @see https://docs.umbraco.com/umbraco-forms/developer/headless#recaptcha */
+export const RECAPTCHA_RESPONSE_KEY = "g-recaptcha-response";
+
+/** serializes coerced form data to the `values` of a form entry, uploaded files are encoded as base64 data urls
+ * @see https://docs.umbraco.com/umbraco-forms/developer/headless#submitting-a-form-entry */
+export async function serializeFormEntryValues(
+  form: FormDto,
+  data: Record<string, unknown>,
+  fieldTypes?: FieldTypePlugins,
+): Promise<FormEntryValues> {
+  const output: FormEntryValues = {};
+  for (const field of getAllFields(form) ?? []) {
+    if (!field?.alias || !(field.alias in data)) continue;
+    // title and description and rich text fields are presentation only and have no value to submit
+    if (isDisplayOnlyField(field)) continue;
+    const value = data[field.alias];
+    const typeId = field?.type?.id?.toLowerCase();
+    const plugin = getFieldTypePlugin(field, fieldTypes);
+    const values = plugin?.serialize
+      ? await plugin.serialize(value, field)
+      : typeId === DefaultFieldType.FileUpload
+        ? await serializeFiles(value)
+        : typeId === DefaultFieldType.Date
+          ? serializeDateValue(value)
+          : serializeFieldValue(value);
+    if (values.length === 0) continue;
+    if (
+      typeId === DefaultFieldType.Recaptcha2 ||
+      typeId === DefaultFieldType.RecaptchaV3WithScore
+    ) {
+      // the delivery api reads captcha tokens from a fixed key rather than the field alias
+      output[RECAPTCHA_RESPONSE_KEY] = values;
+      continue;
+    }
+    output[field.alias] = values;
+  }
+  return output;
+}
+
+/** serializes a single coerced field value to the string array format used by form entries */
+export function serializeFieldValue(value: unknown): string[] {
+  if (value === undefined || value === null || value === "") return [];
+  if (Array.isArray(value)) {
+    return value.flatMap(serializeFieldValue);
+  }
+  if (typeof value === "boolean") {
+    // umbraco forms treats a checked checkbox as "on" and omits unchecked ones
+    return value ? ["on"] : [];
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? [] : [value.toISOString()];
+  }
+  return [String(value)];
+}
+
+/** serializes the value of a date field as `yyyy-MM-dd`, the format expected for date fields by the delivery api */
+export function serializeDateValue(value: unknown): string[] {
+  return value instanceof Date && !isNaN(value.getTime())
+    ? [formatDateOnly(value)]
+    : serializeFieldValue(value);
+}
+
+/** encodes uploaded files to the file format used by form entries */
+export async function serializeFiles(
+  value: unknown,
+): Promise<FormEntryFileDto[]> {
+  const files = (Array.isArray(value) ? value : [value]).filter(
+    (file): file is Blob & { name: string } =>
+      typeof Blob !== "undefined" && file instanceof Blob && "name" in file,
+  );
+  return Promise.all(
+    files.map(async (file) => ({
+      fileName: file.name,
+      fileContents: await toDataUrl(file),
+    })),
+  );
+}
+
+async function toDataUrl(file: Blob) {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  // encode in chunks to stay below the maximum number of function arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${file.type || "application/octet-stream"};base64,${btoa(binary)}`;
+}
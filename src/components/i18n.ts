@@ -0,0 +1,263 @@
+import type { FormFieldDto, UmbracoFormConfig } from "./types";
+import { createDateOnly, toDateOnly } from "./dates";
+
+/** Default validation messages, used when a field definition leaves its own error messages empty */
+export interface FormMessages {
+  required: (field: FormFieldDto) => string;
+  maximumLength: (field: FormFieldDto, maximumLength: number) => string;
+  pattern: (field: FormFieldDto) => string;
+  invalidDate: (field: FormFieldDto) => string;
+  minimumDate: (field: FormFieldDto, minimumDate: string) => string;
+  maximumDate: (field: FormFieldDto, maximumDate: string) => string;
+  fileType: (field: FormFieldDto, allowedExtensions: string) => string;
+  fileSize: (field: FormFieldDto, maxFileSize: string) => string;
+  captcha: (field: FormFieldDto) => string;
+}
+
+const caption = (field: FormFieldDto) => field?.caption || field?.alias || "";
+
+/** Message catalogs keyed by culture, cultures without a catalog fall back to their language and then to `en` */
+export const formMessages: Record<string, FormMessages> = {
+  en: {
+    required: (field) => `Please provide a value for ${caption(field)}`,
+    maximumLength: (field, maximumLength) =>
+      `${caption(field)} must be at most ${maximumLength} characters`,
+    pattern: (field) => `Please provide a valid value for ${caption(field)}`,
+    invalidDate: (field) => `Please provide a valid date for ${caption(field)}`,
+    minimumDate: (field, minimumDate) =>
+      `${caption(field)} must be on or after ${minimumDate}`,
+    maximumDate: (field, maximumDate) =>
+      `${caption(field)} must be on or before ${maximumDate}`,
+    fileType: (field, allowedExtensions) =>
+      `${caption(field)} only accepts files of type ${allowedExtensions}`,
+    fileSize: (field, maxFileSize) =>
+      `Files for ${caption(field)} must not exceed ${maxFileSize}`,
+    captcha: () => "Please confirm that you are not a robot",
+  },
+  da: {
+    required: (field) => `Angiv venligst en værdi for ${caption(field)}`,
+    maximumLength: (field, maximumLength) =>
+      `${caption(field)} må højst være ${maximumLength} tegn`,
+    pattern: (field) => `Angiv venligst en gyldig værdi for ${caption(field)}`,
+    invalidDate: (field) =>
+      `Angiv venligst en gyldig dato for ${caption(field)}`,
+    minimumDate: (field, minimumDate) =>
+      `${caption(field)} skal være ${minimumDate} eller senere`,
+    maximumDate: (field, maximumDate) =>
+      `${caption(field)} skal være ${maximumDate} eller tidligere`,
+    fileType: (field, allowedExtensions) =>
+      `${caption(field)} accepterer kun filer af typen ${allowedExtensions}`,
+    fileSize: (field, maxFileSize) =>
+      `Filer til ${caption(field)} må ikke være større end ${maxFileSize}`,
+    captcha: () => "Bekræft venligst, at du ikke er en robot",
+  },
+  de: {
+    required: (field) => `Bitte geben Sie einen Wert für ${caption(field)} an`,
+    maximumLength: (field, maximumLength) =>
+      `${caption(field)} darf höchstens ${maximumLength} Zeichen lang sein`,
+    pattern: (field) =>
+      `Bitte geben Sie einen gültigen Wert für ${caption(field)} an`,
+    invalidDate: (field) =>
+      `Bitte geben Sie ein gültiges Datum für ${caption(field)} an`,
+    minimumDate: (field, minimumDate) =>
+      `${caption(field)} darf nicht vor dem ${minimumDate} liegen`,
+    maximumDate: (field, maximumDate) =>
+      `${caption(field)} darf nicht nach dem ${maximumDate} liegen`,
+    fileType: (field, allowedExtensions) =>
+      `${caption(field)} akzeptiert nur Dateien vom Typ ${allowedExtensions}`,
+    fileSize: (field, maxFileSize) =>
+      `Dateien für ${caption(field)} dürfen nicht größer als ${maxFileSize} sein`,
+    captcha: () => "Bitte bestätigen Sie, dass Sie kein Roboter sind",
+  },
+  nl: {
+    required: (field) => `Vul een waarde in voor ${caption(field)}`,
+    maximumLength: (field, maximumLength) =>
+      `${caption(field)} mag maximaal ${maximumLength} tekens bevatten`,
+    pattern: (field) => `Vul een geldige waarde in voor ${caption(field)}`,
+    invalidDate: (field) => `Vul een geldige datum in voor ${caption(field)}`,
+    minimumDate: (field, minimumDate) =>
+      `${caption(field)} mag niet eerder zijn dan ${minimumDate}`,
+    maximumDate: (field, maximumDate) =>
+      `${caption(field)} mag niet later zijn dan ${maximumDate}`,
+    fileType: (field, allowedExtensions) =>
+      `${caption(field)} accepteert alleen bestanden van het type ${allowedExtensions}`,
+    fileSize: (field, maxFileSize) =>
+      `Bestanden voor ${caption(field)} mogen niet groter zijn dan ${maxFileSize}`,
+    captcha: () => "Bevestig dat je geen robot bent",
+  },
+};
+
+/** languages written from right to left */
+const RTL_LANGUAGES = [
+  "ar",
+  "arc",
+  "ckb",
+  "dv",
+  "fa",
+  "he",
+  "iw",
+  "ks",
+  "ps",
+  "sd",
+  "ug",
+  "ur",
+  "yi",
+];
+
+const validCultures = new Map<string, boolean>();
+
+/** checks if a culture is a well-formed locale, `Intl` formatters throw a `RangeError` for malformed cultures such as `en_US` */
+function isValidCulture(culture?: string): boolean {
+  if (culture === undefined) return true;
+  let isValid = validCultures.get(culture);
+  if (isValid === undefined) {
+    try {
+      isValid = Intl.getCanonicalLocales(culture).length > 0;
+    } catch {
+      isValid = false;
+    }
+    validCultures.set(culture, isValid);
+  }
+  return isValid;
+}
+
+/** gets the culture of a form, the culture of the submitted entries is used when no culture is configured */
+export function getFormCulture(
+  config: Partial<UmbracoFormConfig> | undefined,
+): string | undefined {
+  return (
+    config?.culture ??
+    (typeof config?.submitEntry === "object"
+      ? config.submitEntry.culture
+      : undefined)
+  );
+}
+
+/** gets the validation messages for a culture, e.g. `nl-BE` falls back to `nl` and then to `en` */
+export function getFormMessages(
+  culture?: string,
+  overrides?: Partial<FormMessages>,
+): FormMessages {
+  const language = culture?.split("-")[0]?.toLowerCase();
+  const catalog =
+    (culture ? formMessages[culture] : undefined) ??
+    (language ? formMessages[language] : undefined) ??
+    formMessages.en;
+  return { ...formMessages.en, ...catalog, ...overrides };
+}
+
+/** checks if a culture is written from right to left */
+export function isRtlCulture(culture?: string): boolean {
+  const language = culture?.split("-")[0]?.toLowerCase();
+  return language ? RTL_LANGUAGES.includes(language) : false;
+}
+
+/** parses a number, invariant numbers take precedence over numbers formatted in the culture;
+ * in cultures that group digits with a `.` a number such as `1.234` is read as a culture number, as it is a thousand there,
+ * unless the value comes from a number input, which always reports invariant numbers */
+export function parseNumber(
+  value: string,
+  culture?: string,
+  isNumberInput = false,
+): number {
+  const trimmed = value.trim();
+  if (trimmed === "") return NaN;
+  // numbers are parsed as invariant numbers when the culture is malformed
+  if (!isValidCulture(culture)) return Number(trimmed);
+
+  const parts = new Intl.NumberFormat(culture).formatToParts(-12345.6);
+  const group = parts.find((part) => part.type === "group")?.value ?? ",";
+  const decimal = parts.find((part) => part.type === "decimal")?.value ?? ".";
+  // group separators are spaces in some cultures, which are dropped with all other whitespace
+  const compact = trimmed
+    .replace(/[\s\u00a0\u202f]/g, "")
+    .replace(/^\u2212/, "-");
+
+  const cultureNumber = Number(
+    compact.split(group).join("").replace(decimal, "."),
+  );
+  if (
+    !isNumberInput &&
+    group === "." &&
+    isGroupedNumber(compact, group, decimal)
+  ) {
+    return cultureNumber;
+  }
+  const invariant = Number(trimmed);
+  return isNaN(invariant) ? cultureNumber : invariant;
+}
+
+/** checks if a number is formatted with group separators between every three digits, e.g. `1.234.567,8` */
+function isGroupedNumber(value: string, group: string, decimal: string) {
+  const escape = (separator: string) =>
+    separator.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(
+    `^-?\\d{1,3}(${escape(group)}\\d{3})+(${escape(decimal)}\\d+)?$`,
+  ).test(value);
+}
+
+/** parses a date, iso dates such as the values of date inputs take precedence over dates formatted in the culture,
+ * dates without a time are returned as midnight utc */
+export function parseDate(value: string, culture?: string): Date | undefined {
+  const trimmed = value.trim();
+  if (trimmed === "") return undefined;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    return toDateOnly(trimmed);
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) {
+    const date = Date.parse(trimmed);
+    return isNaN(date) ? undefined : new Date(date);
+  }
+
+  const numbers = trimmed.match(/\d+/g);
+  // dates are parsed as iso dates when the culture is malformed
+  if (numbers?.length === 3 && isValidCulture(culture)) {
+    // the order of day, month and year is read from a formatted reference date
+    const order = new Intl.DateTimeFormat(culture)
+      .formatToParts(new Date(2000, 11, 31))
+      .map((part) => part.type)
+      .filter(
+        (type): type is "day" | "month" | "year" =>
+          type === "day" || type === "month" || type === "year",
+      );
+    if (order.length === 3) {
+      const parts = Object.fromEntries(
+        order.map((type, index) => [type, Number(numbers[index])]),
+      );
+      const year = parts.year < 100 ? 2000 + parts.year : parts.year;
+      return createDateOnly(year, parts.month, parts.day);
+    }
+  }
+
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : new Date(date);
+}
+
+/** formats a date only value in the culture for validation messages */
+export function formatDate(date: Date, culture?: string): string {
+  return new Intl.DateTimeFormat(
+    isValidCulture(culture) ? culture : undefined,
+    {
+      dateStyle: "medium",
+      timeZone: "UTC",
+    },
+  ).format(date);
+}
+
+/** formats a file size in bytes for validation messages, e.g. `2 MB` */
+export function formatFileSize(bytes: number, culture?: string): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return (
+    new Intl.NumberFormat(isValidCulture(culture) ? culture : undefined, {
+      maximumFractionDigits: 1,
+    }).format(size) +
+    " " +
+    units[unit]
+  );
+}
@@ -0,0 +1,120 @@
+export { default } from "./UmbracoForm";
+export type { UmbracoFormProps } from "./UmbracoForm";
+export {
+  umbracoFormToZod,
+  coerceFormData,
+  problemDetailsToZodIssues,
+} from "./umbraco-form-to-zod";
+export { useUmbracoForm } from "./use-umbraco-form";
+export type {
+  UseUmbracoFormOptions,
+  UmbracoFormState,
+  FormLifecycleDetails,
+  ConditionalDtoKind,
+} from "./use-umbraco-form";
+export { createFormAnalytics, useFormAnalytics } from "./form-analytics";
+export type {
+  FormAnalytics,
+  FormAnalyticsCallbacks,
+  FormAnalyticsEvent,
+  FormAnalyticsEventType,
+  FormAnalyticsOptions,
+} from "./form-analytics";
+export { UmbracoFormProvider } from "./form-context";
+export { useFormContext, useField, useFormPage } from "./use-form-context";
+export type { UmbracoFormProviderProps } from "./form-context";
+export {
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createMemoryStorageAdapter,
+  loadDraft,
+  saveDraft,
+  clearDraft,
+} from "./drafts";
+export type { DraftOptions, DraftStorage, FormDraft } from "./drafts";
+export { createHashNavigationAdapter } from "./page-navigation";
+export {
+  useIsHydrated,
+  getRequestedPage,
+  PAGE_INPUT_NAME,
+  PAGE_NAVIGATION_NAME,
+} from "./ssr";
+export type {
+  FormPageStep,
+  FormPageStepStatus,
+  HashNavigationOptions,
+  PageNavigationAdapter,
+} from "./page-navigation";
+export type {
+  MapFormFieldToZodFn,
+  UmbracoFormToZodOptions,
+  CoerceFormDataOptions,
+} from "./umbraco-form-to-zod";
+export {
+  formMessages,
+  getFormMessages,
+  isRtlCulture,
+  parseNumber,
+  parseDate,
+} from "./i18n";
+export type { FormMessages } from "./i18n";
+export { getConditionOperator } from "./conditions";
+export type {
+  ConditionOperator,
+  ConditionOperatorFn,
+  ConditionOperators,
+  ConditionOptions,
+} from "./conditions";
+export { getFieldTypePlugin } from "./field-type-plugins";
+export { getFieldSettings } from "./field-settings";
+export type {
+  CaptionTag,
+  NormalizedFieldSettings,
+  PreValue,
+} from "./field-settings";
+export type { FieldTypePlugin, FieldTypePlugins } from "./field-type-plugins";
+export {
+  getConditionGraph,
+  getConditionDependents,
+  getConditionCycles,
+  createConditionEvaluator,
+} from "./condition-graph";
+export type { ConditionGraph, ConditionEvaluator } from "./condition-graph";
+export {
+  validateFormDefinition,
+  formDefinitionSchema,
+} from "./validate-form-definition";
+export type {
+  FormDefinitionDiagnostic,
+  FormDefinitionDiagnosticCode,
+  FormDefinitionValidationResult,
+  ValidateFormDefinitionOptions,
+} from "./validate-form-definition";
+export {
+  getFormDefinition,
+  UmbracoFormsApiError,
+  UmbracoFormsBadRequestError,
+  UmbracoFormsNotFoundError,
+  UmbracoFormsUnprocessableEntityError,
+  submitEntry,
+} from "./umbraco-forms-api";
+export type {
+  UmbracoFormsApiConfig,
+  FormDefinitionQuery,
+  ProblemDetails,
+  HttpValidationProblemDetails,
+  SubmitEntryOptions,
+} from "./umbraco-forms-api";
+export {
+  resolveMagicString,
+  resolveFieldMagicStrings,
+  resolveFormMagicStrings,
+} from "./magic-strings";
+export type { MagicStringContext, MagicStringPrefix } from "./magic-strings";
+export { createRecaptchaProvider, createTestCaptchaProvider } from "./captcha";
+export type {
+  CaptchaProvider,
+  CaptchaWidgetOptions,
+  RecaptchaProviderOptions,
+} from "./captcha";
+export type * from "./types";
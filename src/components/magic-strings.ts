@@ -0,0 +1,169 @@
+import type { FormDto, FormFieldDto } from "./types";
+
+/** Prefixes of the bracketed magic string tokens
+ * @see https://docs.umbraco.com/umbraco-forms/developer/magic-strings */
+export type MagicStringPrefix = "#" | "+" | "@" | "%" | "~";
+
+/** Context used to resolve magic strings in a form definition */
+export interface MagicStringContext {
+  /** Properties of the current page used by `[#key]` and `[+key]` tokens, e.g. `pageName` */
+  page?: Record<string, unknown>;
+  /** Query string used by `[@key]` tokens; defaults to the current location when rendered in a browser */
+  query?: URLSearchParams | Record<string, unknown>;
+  /** Session items used by `[%key]` tokens */
+  session?: Record<string, unknown>;
+  /** Cookies used by `[%key]` tokens when no session item exists; defaults to `document.cookie` when rendered in a browser */
+  cookies?: Record<string, string>;
+  /** Properties of the current member used by `[~key]` tokens */
+  member?: Record<string, unknown>;
+  /** Current form values used by `{alias}` tokens */
+  values?: Record<string, unknown>;
+  /** Optional custom resolver, called before the built-in lookups; return `undefined` to fall back to them */
+  resolve?: (prefix: MagicStringPrefix | "{", key: string) => unknown;
+}
+
+const MAGIC_STRING_PATTERN =
+  /\[([#+@%~])([^\]|]+?)\s*(?:\|[^\]]*)?\]|\{([^{}\s]+)\}/g;
+
+/** checks if a string contains any magic string tokens */
+export function hasMagicStrings(value: string | undefined): boolean {
+  if (!value) return false;
+  MAGIC_STRING_PATTERN.lastIndex = 0;
+  return MAGIC_STRING_PATTERN.test(value);
+}
+
+/** replaces magic string tokens with values from the context, unresolved tokens are replaced with an empty string like Umbraco Forms does
+ * @see https://docs.umbraco.com/umbraco-forms/developer/magic-strings */
+export function resolveMagicString(
+  value: string | undefined,
+  context: MagicStringContext = {},
+): string | undefined {
+  if (!hasMagicStrings(value)) return value;
+  return value?.replace(
+    MAGIC_STRING_PATTERN,
+    (_, prefix: MagicStringPrefix | undefined, key?: string, alias?: string) =>
+      formatMagicStringValue(
+        prefix && key
+          ? resolveToken(context, prefix, key.trim())
+          : resolveToken(context, "{", alias ?? ""),
+      ),
+  );
+}
+
+/** resolves magic strings in the caption, help text, placeholder and default value of a field */
+export function resolveFieldMagicStrings(
+  field: FormFieldDto,
+  context: MagicStringContext = {},
+): FormFieldDto {
+  const defaultValue =
+    field?.settings && "defaultValue" in field.settings
+      ? field.settings.defaultValue
+      : undefined;
+
+  if (
+    !hasMagicStrings(field?.caption) &&
+    !hasMagicStrings(field?.helpText) &&
+    !hasMagicStrings(field?.placeholder) &&
+    !hasMagicStrings(defaultValue)
+  ) {
+    return field;
+  }
+
+  return {
+    ...field,
+    caption: resolveMagicString(field.caption, context),
+    helpText: resolveMagicString(field.helpText, context),
+    placeholder: resolveMagicString(field.placeholder, context),
+    settings:
+      defaultValue !== undefined
+        ? {
+            ...field.settings,
+            defaultValue: resolveMagicString(defaultValue, context) ?? "",
+          }
+        : field.settings,
+  };
+}
+
+/** resolves magic strings in the form level messages of a form definition */
+export function resolveFormMagicStrings(
+  form: FormDto,
+  context: MagicStringContext = {},
+): FormDto {
+  if (!hasMagicStrings(form?.messageOnSubmit)) return form;
+  return {
+    ...form,
+    messageOnSubmit: resolveMagicString(form.messageOnSubmit, context),
+  };
+}
+
+function resolveToken(
+  context: MagicStringContext,
+  prefix: MagicStringPrefix | "{",
+  key: string,
+): unknown {
+  const custom = context.resolve?.(prefix, key);
+  if (custom !== undefined) return custom;
+
+  switch (prefix) {
+    case "#":
+    case "+":
+      return context.page?.[key];
+    case "@":
+      return getQueryValue(context.query ?? getLocationQuery(), key);
+    case "%":
+      return context.session?.[key] ?? (context.cookies ?? getCookies())[key];
+    case "~":
+      return context.member?.[key];
+    case "{":
+      return context.values?.[key];
+  }
+}
+
+function getQueryValue(
+  query: URLSearchParams | Record<string, unknown> | undefined,
+  key: string,
+) {
+  if (query instanceof URLSearchParams) {
+    return query.get(key) ?? undefined;
+  }
+  return query?.[key];
+}
+
+function getLocationQuery() {
+  return typeof window !== "undefined"
+    ? new URLSearchParams(window.location.search)
+    : undefined;
+}
+
+function getCookies(): Record<string, string> {
+  if (typeof document === "undefined" || !document.cookie) return {};
+  return Object.fromEntries(
+    document.cookie.split(";").map((cookie) => {
+      const [name, ...rest] = cookie.trim().split("=");
+      return [name, decodeCookieValue(rest.join("="))];
+    }),
+  );
+}
+
+/** cookies can be set by any script on the site, so values that are not uri encoded are used as they are */
+function decodeCookieValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function formatMagicStringValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) {
+    return value.map(formatMagicStringValue).filter(Boolean).join(", ");
+  }
+  if (value instanceof Date) {
+    // dates are midnight utc, formatting them in utc keeps the calendar day
+    return isNaN(value.getTime())
+      ? ""
+      : value.toLocaleDateString(undefined, { timeZone: "UTC" });
+  }
+  return String(value);
+}
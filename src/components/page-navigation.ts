@@ -0,0 +1,74 @@
+import type { FormPageDto } from "./types";
+
+/** Status of a page in the progress stepper */
+export type FormPageStepStatus =
+  | "completed"
+  | "current"
+  | "invalid"
+  | "upcoming";
+
+/** Visible page of a form as listed by the progress stepper */
+export interface FormPageStep {
+  page: FormPageDto;
+  /** Index of the page in the form definition */
+  pageIndex: number;
+  /** One based position of the page among the visible pages */
+  stepNumber: number;
+  status: FormPageStepStatus;
+}
+
+/** Adapter that syncs the current page with the url, e.g. the url hash or the state of a router */
+export interface PageNavigationAdapter {
+  /** reads the zero based page index from the url, returns `undefined` when the url has no page */
+  getPage(): number | undefined;
+  /** writes the zero based page index to the url, `replace` is set when no new history entry should be created */
+  setPage(page: number, options: { replace: boolean }): void;
+  /** subscribes to url changes such as back and forward navigation, returns a function that unsubscribes again */
+  subscribe(listener: () => void): () => void;
+}
+
+/** Options for the url hash page navigation adapter */
+export interface HashNavigationOptions {
+  /** Name of the hash parameter holding the one based page number; defaults to `page` */
+  key?: string;
+}
+
+/** creates a page navigation adapter that stores the one based page number in the url hash, e.g. `#page=2` */
+export function createHashNavigationAdapter(
+  options: HashNavigationOptions = {},
+): PageNavigationAdapter {
+  const { key = "page" } = options;
+  const readHash = () =>
+    new URLSearchParams(
+      typeof window !== "undefined" ? window.location.hash.slice(1) : "",
+    );
+
+  return {
+    getPage() {
+      const value = Number.parseInt(readHash().get(key) ?? "", 10);
+      return Number.isNaN(value) || value < 1 ? undefined : value - 1;
+    },
+    setPage(page, { replace }) {
+      if (typeof window === "undefined") return;
+      const params = readHash();
+      params.set(key, String(page + 1));
+      const url = new URL(window.location.href);
+      url.hash = params.toString();
+      // history entries are used instead of assigning the hash, so no hashchange event is dispatched for own updates
+      if (replace) {
+        window.history.replaceState(window.history.state, "", url);
+      } else {
+        window.history.pushState(window.history.state, "", url);
+      }
+    },
+    subscribe(listener) {
+      if (typeof window === "undefined") return () => {};
+      window.addEventListener("popstate", listener);
+      window.addEventListener("hashchange", listener);
+      return () => {
+        window.removeEventListener("popstate", listener);
+        window.removeEventListener("hashchange", listener);
+      };
+    },
+  };
+}
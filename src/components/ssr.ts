@@ -0,0 +1,71 @@
+import { useSyncExternalStore } from "react";
+import { createConditionEvaluator } from "./condition-graph";
+import { coerceFormData, umbracoFormToZod } from "./umbraco-form-to-zod";
+import type { FormDto, UmbracoFormConfig } from "./types";
+
+/** name of the hidden input holding the current page index when pages are navigated by round trips to the server */
+export const PAGE_INPUT_NAME = "__umbracoFormPage";
+
+/** name of the previous and next buttons when pages are navigated by round trips to the server */
+export const PAGE_NAVIGATION_NAME = "__umbracoFormNavigation";
+
+const subscribeToNothing = () => () => {};
+
+/** returns `false` on the server and while hydrating, and `true` once the client has taken over;
+ * values that depend on browser globals should only be read when hydrated so the markup matches the server */
+export function useIsHydrated() {
+  return useSyncExternalStore(
+    subscribeToNothing,
+    () => true,
+    () => false,
+  );
+}
+
+/** gets the page to render for a form submitted by a previous or next button without javascript,
+ * the current page is read from the hidden page input and pages hidden by conditions are skipped */
+export function getRequestedPage(
+  form: FormDto,
+  formData: FormData,
+  config: Pick<
+    Partial<UmbracoFormConfig>,
+    "schema" | "mapCustomFieldToZodType" | "conditionOperators" | "fieldTypes"
+  > = {},
+): number {
+  const schema =
+    config.schema ??
+    umbracoFormToZod(form, config.mapCustomFieldToZodType, {
+      conditionOperators: config.conditionOperators,
+      fieldTypes: config.fieldTypes,
+    });
+  const data = coerceFormData(formData, schema, {
+    form,
+    fieldTypes: config.fieldTypes,
+  });
+  const conditionEvaluator = createConditionEvaluator(
+    form,
+    config.mapCustomFieldToZodType,
+    {
+      conditionOperators: config.conditionOperators,
+      fieldTypes: config.fieldTypes,
+    },
+  );
+  const visiblePages = (form?.pages ?? []).flatMap((page, pageIndex) =>
+    conditionEvaluator.isConditionFulfilled(page, data) ? [pageIndex] : [],
+  );
+  const currentPage = Number.parseInt(
+    String(formData.get(PAGE_INPUT_NAME) ?? "0"),
+    10,
+  );
+  const navigation = formData.get(PAGE_NAVIGATION_NAME);
+
+  const requestedPage =
+    navigation === "next"
+      ? visiblePages.find((page) => page > currentPage) ?? currentPage
+      : navigation === "previous"
+        ? [...visiblePages].reverse().find((page) => page < currentPage) ??
+          currentPage
+        : currentPage;
+  return requestedPage !== undefined && visiblePages.includes(requestedPage)
+    ? requestedPage
+    : visiblePages[0] ?? 0;
+}
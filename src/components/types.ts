@@ -3,6 +3,16 @@ import {
   umbracoFormToZod,
 } from "./umbraco-form-to-zod";
 import type { components } from "./umbraco-form.d.ts";
+import type { SubmitEntryOptions } from "./umbraco-forms-api";
+import type { MagicStringContext } from "./magic-strings";
+import type { CaptchaProvider } from "./captcha";
+import type { DraftOptions } from "./drafts";
+import type { PageNavigationAdapter } from "./page-navigation";
+import type { FormMessages } from "./i18n";
+import type { DateRange } from "./dates";
+import type { ConditionOperators } from "./conditions";
+import type { FieldTypePlugins } from "./field-type-plugins";
+import type { UmbracoFormState } from "./use-umbraco-form";
 
 /** Enum of default form field type ids
  * @see https://docs.umbraco.com/umbraco-forms/editor/creating-a-form/field-types */
@@ -100,6 +110,10 @@ export interface FieldSettings {
   };
   [DefaultFieldType.Date]: {
     placeholder: string;
+    /** Earliest allowed date, not a built-in setting; an iso date or a relative date such as `today` */
+    minimumDate?: string;
+    /** Latest allowed date, not a built-in setting; an iso date or a relative date such as `today+30` */
+    maximumDate?: string;
   };
   [DefaultFieldType.Password]: {
     placeholder: string;
@@ -164,6 +178,20 @@ export interface FormFieldDto
   settings: FieldSettings[DefaultFieldType];
 }
 
+/** Form entry submitted to the delivery api
+ * @see https://docs.umbraco.com/umbraco-forms/developer/headless#submitting-a-form-entry */
+export interface FormEntryDto
+  extends Omit<components["schemas"]["FormEntryDto"], "values"> {
+  values?: Record<string, string[] | FormEntryFileDto[]>;
+}
+
+/** Uploaded file in a form entry, the contents are a base64 encoded data url
+ * @see https://docs.umbraco.com/umbraco-forms/developer/headless#file-uploads */
+export interface FormEntryFileDto {
+  fileName: string;
+  fileContents: string;
+}
+
 /** Form condition
  * @see https://docs.umbraco.com/umbraco-forms/editor/creating-a-form/conditional-logic */
 export type FormConditionDto = components["schemas"]["FormConditionDto"];
@@ -192,12 +220,43 @@ export type FieldConditionRuleOperator =
  * @see https://docs.umbraco.com/umbraco-forms/editor/creating-a-form/conditional-logic */
 export type DtoWithCondition = FormPageDto | FormFieldsetDto | FormFieldDto;
 
+/** Coerced form values keyed by field alias */
+export type FormValues = Record<string, unknown>;
+
 /** Configuration for the UmbracoForm component instance */
 export type UmbracoFormConfig = {
   /** Custom schema for form validation; defaults to the umbracoFormToZod implementation */
   schema: ReturnType<typeof umbracoFormToZod>;
   /** Optional custom function to map form fields to Zod types, useful for handling custom field types */
   mapCustomFieldToZodType?: MapFormFieldToZodFn;
+  /** Submit entries to the Umbraco Forms delivery api when the form is submitted; `true` uses the default api options, disabled by default */
+  submitEntry?: boolean | SubmitEntryOptions;
+  /** Context for resolving magic strings such as `[#pageName]` or `[@query]`, field values for `{alias}` tokens are provided by the form */
+  magicStrings?: Omit<MagicStringContext, "values">;
+  /** Maximum size in bytes of each uploaded file, used by the default schema; unlimited by default */
+  maxFileSize?: number;
+  /** Provider used to render captcha widgets and obtain score tokens for the reCAPTCHA field types */
+  captcha?: CaptchaProvider;
+  /** Save drafts of the values and current page and restore them on mount; `true` uses `localStorage`, disabled by default */
+  persistence?: boolean | DraftOptions;
+  /** Sync the current page with the url so back, forward and deep links move between pages; `true` uses the url hash, disabled by default */
+  pageNavigation?: boolean | PageNavigationAdapter;
+  /** How a multi-page form is navigated when rendered on the server and before it is hydrated or without javascript;
+   * `singlePage` shows all pages at once, `roundTrip` submits the form to `action` with a hidden input holding the current page,
+   * the requested page is read with `getRequestedPage` and passed as `defaultPage`; defaults to `singlePage` */
+  noScriptNavigation?: "singlePage" | "roundTrip";
+  /** Culture of the default validation messages, number and date parsing and text direction, e.g. `da-DK`; defaults to the culture of `submitEntry` */
+  culture?: string;
+  /** Overrides for the default validation messages of the culture, messages from the form definition take precedence */
+  messages?: Partial<FormMessages>;
+  /** Allowed dates of date fields keyed by alias, e.g. `{ appointment: { min: "today" } }`; overrides the `minimumDate` and `maximumDate` settings */
+  dateRanges?: Record<string, DateRange>;
+  /** Custom condition rule operators keyed by the operator name used in the form definition, e.g. `{ IsEmpty: (value) => !value }`;
+   * rules with operators that are neither built in nor registered are not fulfilled */
+  conditionOperators?: ConditionOperators;
+  /** Field type plugins keyed by field type id, bundling the zod mapping, attributes, rendering, value coercion and entry serialization of a field type;
+   * plugins registered for a built-in field type replace its behaviour */
+  fieldTypes?: FieldTypePlugins;
 } & (
   | {
       /** Flag indicating if client-side validation should be performed; defaults to `false` */
@@ -217,13 +276,5 @@ export type UmbracoFormConfig = {
     }
 );
 
-export interface UmbracoFormContext {
-  /** The definition of the form */
-  form: FormDto;
-  /** The configuration for the form component */
-  config: UmbracoFormConfig;
-  /** The current page number of the form */
-  currentPage: number;
-  /** The total number of pages in the form */
-  totalPages: number;
-}
+/** Value of the form context provided by `UmbracoForm` and `UmbracoFormProvider`, see `useFormContext` */
+export type UmbracoFormContext = UmbracoFormState;
@@ -3,29 +3,86 @@ import { match } from "ts-pattern";
 import {
   filterFieldsByConditions,
   getAllFields,
+  getFieldByAlias,
+  getFieldById,
   getFieldByZodIssue,
+  isDisplayOnlyField,
 } from "./field-utils";
 import { DefaultFieldType, type FormFieldDto, type FormDto } from "./types";
+import type {
+  HttpValidationProblemDetails,
+  ProblemDetails,
+} from "./umbraco-forms-api";
+import {
+  type FormMessages,
+  formatDate,
+  formatFileSize,
+  getFormMessages,
+  parseDate,
+  parseNumber,
+} from "./i18n";
+import type { ConditionOperators, ConditionOptions } from "./conditions";
+import {
+  type FieldTypePlugins,
+  getFieldTypePlugin,
+} from "./field-type-plugins";
+import { getFieldSettings } from "./field-settings";
+import {
+  type DateRange,
+  formatDateOnly,
+  getDateRange,
+  toDateOnly,
+} from "./dates";
 
 /** convert a form field definition to a zod type */
 export type MapFormFieldToZodFn = (field?: FormFieldDto) => z.ZodTypeAny;
 
+/** options for mapping form fields to zod types */
+export type UmbracoFormToZodOptions = {
+  /** Maximum size in bytes of each uploaded file; unlimited by default */
+  maxFileSize?: number;
+  /** Culture of the default validation messages, e.g. `da-DK`; defaults to `en` */
+  culture?: string;
+  /** Overrides for the default validation messages of the culture */
+  messages?: Partial<FormMessages>;
+  /** Allowed dates of date fields keyed by alias, overrides the `minimumDate` and `maximumDate` settings */
+  dateRanges?: Record<string, DateRange>;
+  /** Custom condition rule operators, used to omit fields hidden by conditions from validation */
+  conditionOperators?: ConditionOperators;
+  /** Field type plugins keyed by field type id, used to map custom and replaced field types */
+  fieldTypes?: FieldTypePlugins;
+};
+
+/** options for coercing form data */
+export type CoerceFormDataOptions = {
+  /** Culture used to parse numbers and dates that are not in an invariant format */
+  culture?: string;
+  /** Aliases of fields rendered as number inputs, their values are always parsed as invariant numbers;
+   * short answer fields with the `number` field type are number inputs when `form` is set */
+  numberInputs?: string[];
+  /** Form definition used to find the field type plugins of the fields */
+  form?: FormDto;
+  /** Field type plugins keyed by field type id, values of fields with a `coerceValue` hook are coerced by the plugin */
+  fieldTypes?: FieldTypePlugins;
+};
+
 /** converts an umbraco form definition to a zod schema
  * @see https://docs.umbraco.com/umbraco-forms/developer/ajaxforms#requesting-a-form-definition */
 export function umbracoFormToZod(
   form: FormDto,
   mapCustomFieldToZodType?: MapFormFieldToZodFn,
+  options?: UmbracoFormToZodOptions,
 ) {
   const fields = getAllFields(form);
 
   const mappedFields = fields?.reduce<Record<string, z.ZodTypeAny>>(
     (acc, field) => {
       if (!field?.alias) return acc;
-      // skip title and description fields as they are presentation only and do not need to be validated
-      if (field?.type?.id === DefaultFieldType.TitleAndDescription) return acc;
+      // skip title and description and rich text fields as they are presentation only and do not need to be validated
+      if (isDisplayOnlyField(field)) return acc;
       return {
         ...acc,
-        [field.alias]: mapFieldToZod(field, mapCustomFieldToZodType),
+        [field.alias]: mapFieldToZod(field, mapCustomFieldToZodType, options),
       };
     },
     {},
@@ -33,7 +90,12 @@ export function umbracoFormToZod(
 
   return z.object({ ...mappedFields }).transform((value) =>
     // don't validate form fields that are not visible due to condition somewhere in the form definition
-    omitFieldsBasedOnConditionFromData(form, value, mapCustomFieldToZodType),
+    omitFieldsBasedOnConditionFromData(
+      form,
+      value,
+      mapCustomFieldToZodType,
+      options,
+    ),
   );
 }
 
@@ -41,75 +103,133 @@ export function umbracoFormToZod(
 export function mapFieldToZod(
   field: FormFieldDto,
   mapCustomFieldToZodType?: MapFormFieldToZodFn,
+  options?: UmbracoFormToZodOptions,
 ): z.ZodTypeAny {
   let zodType;
+  const messages = getFormMessages(options?.culture, options?.messages);
+  // messages from the form definition take precedence over the default messages
+  const requiredMessage =
+    field?.requiredErrorMessage || messages.required(field);
 
-  match(field?.type?.id.toLowerCase())
-    .with(
-      DefaultFieldType.ShortAnswer,
-      DefaultFieldType.LongAnswer,
-      DefaultFieldType.FileUpload,
-      DefaultFieldType.DropdownList,
-      DefaultFieldType.SingleChoice,
-      () => {
-        zodType = z.string({
-          required_error: field?.requiredErrorMessage,
-          coerce: true,
+  const plugin = getFieldTypePlugin(field, options?.fieldTypes);
+
+  if (plugin?.mapToZod) {
+    // field type plugins take precedence over the built-in field types
+    zodType = plugin.mapToZod(field, options);
+  } else {
+    match(field?.type?.id.toLowerCase())
+      .with(
+        DefaultFieldType.DropdownList,
+        (id) => getFieldSettings(field, id).allowMultipleSelections,
+        () => {
+          zodType = mapMultipleValuesToZod(field, requiredMessage);
+        },
+      )
+      .with(
+        DefaultFieldType.ShortAnswer,
+        DefaultFieldType.LongAnswer,
+        DefaultFieldType.DropdownList,
+        DefaultFieldType.SingleChoice,
+        DefaultFieldType.Password,
+        DefaultFieldType.HiddenField,
+        (id) => {
+          let stringType = z.string({ required_error: requiredMessage });
+          if (field?.required) {
+            stringType = stringType.min(1, requiredMessage);
+          }
+          const settings = getFieldSettings(field, id);
+          if (
+            "maximumLength" in settings &&
+            settings.maximumLength !== undefined
+          ) {
+            const maximumLength = settings.maximumLength;
+            stringType = stringType.max(
+              maximumLength,
+              field?.patternInvalidErrorMessage ||
+                messages.maximumLength(field, maximumLength),
+            );
+          }
+          const regex = field?.pattern ? new RegExp(field.pattern) : undefined;
+          // missing values are validated as empty strings rather than coerced to "undefined" or "null"
+          zodType = z.preprocess(
+            (value) =>
+              value === undefined || value === null ? "" : String(value),
+            regex
+              ? stringType.refine((value) => regex.test(value), {
+                  message:
+                    field.patternInvalidErrorMessage || messages.pattern(field),
+                })
+              : stringType,
+          );
+        },
+      )
+      .with(DefaultFieldType.MultipleChoice, () => {
+        zodType = mapMultipleValuesToZod(field, requiredMessage);
+      })
+      .with(DefaultFieldType.Date, () => {
+        const { min, max } = getDateRange(field, options?.dateRanges);
+        let dateType = z.date({
+          // empty values are reported as missing rather than as invalid dates
+          errorMap: (_, ctx) => ({
+            message:
+              ctx.data === undefined || ctx.data === ""
+                ? requiredMessage
+                : messages.invalidDate(field),
+          }),
         });
-        if (field?.required) {
-          zodType = zodType.min(1, field?.requiredErrorMessage);
-        }
-        if ("maximumLength" in field?.settings) {
-          zodType = zodType.max(
-            parseInt(field?.settings.maximumLength),
-            field?.patternInvalidErrorMessage,
+        // date values are midnight utc, so boundaries are compared on the calendar day
+        if (min) {
+          dateType = dateType.min(
+            min,
+            messages.minimumDate(field, formatDate(min, options?.culture)),
           );
         }
-        if (field?.pattern) {
-          const regex = new RegExp(field.pattern);
-          zodType = zodType.refine((value) => regex.test(value), {
-            message: field.patternInvalidErrorMessage,
-          });
+        if (max) {
+          dateType = dateType.max(
+            max,
+            messages.maximumDate(field, formatDate(max, options?.culture)),
+          );
         }
-      },
-    )
-    .with(DefaultFieldType.MultipleChoice, () => {
-      zodType = z.array(z.string());
-      if (field?.required) {
-        zodType = zodType.nonempty();
-      }
-    })
-    .with(DefaultFieldType.Date, () => {
-      zodType = z.date();
-    })
-    .with(
-      DefaultFieldType.Checkbox,
-      DefaultFieldType.DataConsent,
-      DefaultFieldType.Recaptcha2,
-      DefaultFieldType.RecaptchaV3WithScore,
-      () => {
+        zodType = dateType;
+      })
+      .with(DefaultFieldType.FileUpload, () => {
+        zodType = mapFileUploadToZod(field, options);
+      })
+      .with(
+        DefaultFieldType.Recaptcha2,
+        DefaultFieldType.RecaptchaV3WithScore,
+        (id) => {
+          // the captcha provider puts its token in the field, so an empty value means it failed or was never solved
+          const message =
+            getFieldSettings(field, id).errorMessage ||
+            field?.requiredErrorMessage ||
+            messages.captcha(field);
+          zodType = z.string({ required_error: message }).min(1, message);
+        },
+      )
+      .with(DefaultFieldType.Checkbox, DefaultFieldType.DataConsent, () => {
         zodType = z.boolean({
           coerce: true,
         });
         if (field?.required) {
           zodType = zodType.refine((value) => value === true, {
-            message: field?.requiredErrorMessage,
+            message: requiredMessage,
           });
           return zodType;
         }
-      },
-    )
-    .otherwise(() => {
-      if (typeof mapCustomFieldToZodType === "function") {
-        try {
-          zodType = mapCustomFieldToZodType(field);
-        } catch (e) {
-          throw new Error(
-            `Zod mapping failed for custom field: ${field?.type?.name} (${field?.type?.id})`,
-          );
+      })
+      .otherwise(() => {
+        if (typeof mapCustomFieldToZodType === "function") {
+          try {
+            zodType = mapCustomFieldToZodType(field);
+          } catch (e) {
+            throw new Error(
+              `Zod mapping failed for custom field: ${field?.type?.name} (${field?.type?.id})`,
+            );
+          }
         }
-      }
-    });
+      });
+  }
 
   if (!zodType)
     throw new TypeError(
@@ -123,6 +243,70 @@ export function mapFieldToZod(
   return zodType;
 }
 
+/** map fields with multiple values, such as multiple choice fields and multi-select dropdowns, to an array of prevalues */
+function mapMultipleValuesToZod(field: FormFieldDto, requiredMessage: string) {
+  const values = z.array(z.string(), { required_error: requiredMessage });
+  return field?.required ? values.nonempty(requiredMessage) : values;
+}
+
+/** map file upload fields to a zod type validating the allowed extensions, multiplicity and size of the files */
+function mapFileUploadToZod(
+  field: FormFieldDto,
+  options?: UmbracoFormToZodOptions,
+) {
+  const {
+    allowAllUploadExtensions,
+    allowedUploadExtensions,
+    allowMultipleFileUploads,
+  } = field?.fileUploadOptions ?? {};
+  const allowedExtensions = allowAllUploadExtensions
+    ? []
+    : (allowedUploadExtensions ?? []).map(normalizeFileExtension);
+  const maxFileSize = options?.maxFileSize;
+  const messages = getFormMessages(options?.culture, options?.messages);
+  const requiredMessage =
+    field?.requiredErrorMessage || messages.required(field);
+
+  const isAllowedExtension = (file: File) =>
+    allowedExtensions.length === 0 ||
+    allowedExtensions.includes(normalizeFileExtension(file.name));
+  const isAllowedSize = (file: File) =>
+    !maxFileSize || file.size <= maxFileSize;
+  const extensionMessage = messages.fileType(
+    field,
+    allowedExtensions.join(", "),
+  );
+  const sizeMessage = messages.fileSize(
+    field,
+    formatFileSize(maxFileSize ?? 0, options?.culture),
+  );
+
+  // File is checked lazily since it is not available in every server runtime
+  const fileType = z.custom<File>(
+    (value) => typeof File !== "undefined" && value instanceof File,
+    { message: requiredMessage },
+  );
+
+  if (!allowMultipleFileUploads) {
+    return fileType
+      .refine(isAllowedExtension, extensionMessage)
+      .refine(isAllowedSize, sizeMessage);
+  }
+
+  // multiple files are validated as a whole so issues are reported on the field rather than on each file
+  let files = z.array(fileType);
+  if (field?.required) {
+    files = files.min(1, requiredMessage);
+  }
+  return files
+    .refine((value) => value.every(isAllowedExtension), extensionMessage)
+    .refine((value) => value.every(isAllowedSize), sizeMessage);
+}
+
+function normalizeFileExtension(fileNameOrExtension: string) {
+  return (fileNameOrExtension.split(".").pop() ?? "").toLowerCase();
+}
+
 export function getIssueId(
   field: FormFieldDto | undefined,
   issue: z.ZodIssue | undefined,
@@ -146,17 +330,61 @@ export function sortZodIssuesByFieldAlias(form: FormDto, issues: z.ZodIssue[]) {
   });
 }
 
+/** converts problem details from the delivery api to zod issues,
+ * errors keyed by a field alias or id are mapped to that field and all other errors become form level issues with an empty path */
+export function problemDetailsToZodIssues(
+  form: FormDto,
+  problemDetails: ProblemDetails | HttpValidationProblemDetails | undefined,
+): z.ZodIssue[] {
+  if (!problemDetails) return [];
+  const errors = problemDetails.errors as
+    | HttpValidationProblemDetails["errors"]
+    | undefined;
+
+  if (!errors || Object.keys(errors).length === 0) {
+    const message = problemDetails.detail ?? problemDetails.title;
+    return message ? [{ code: z.ZodIssueCode.custom, path: [], message }] : [];
+  }
+
+  const issues = Object.entries(errors).flatMap(([key, messages]) => {
+    const field = getFieldByProblemDetailsKey(form, key);
+    return (messages ?? []).map(
+      (message): z.ZodIssue => ({
+        code: z.ZodIssueCode.custom,
+        path: field?.alias ? [field.alias] : [],
+        message,
+      }),
+    );
+  });
+
+  return sortZodIssuesByFieldAlias(form, issues);
+}
+
+/** resolves the field for an error key, keys may be prefixed with the entry property name, e.g. `values.name` */
+function getFieldByProblemDetailsKey(form: FormDto, key: string) {
+  const name = key.replace(/^\$?\.?(values\.)?/i, "");
+  return (
+    getFieldByAlias(form, name) ??
+    getFieldById(form, name) ??
+    getAllFields(form)?.find(
+      (field) => field?.alias?.toLowerCase() === name.toLowerCase(),
+    )
+  );
+}
+
 /** omit fields from data that are not visible to the user */
 export function omitFieldsBasedOnConditionFromData(
   form: FormDto,
   data: Record<string, unknown>,
   mapCustomFieldToZodType?: MapFormFieldToZodFn,
+  options?: ConditionOptions,
 ) {
   let output: Record<string, unknown> = {};
   const visibleFields = filterFieldsByConditions(
     form,
     data,
     mapCustomFieldToZodType,
+    options,
   );
   visibleFields.forEach((field) => {
     if (field.alias) {
@@ -170,6 +398,7 @@ export function omitFieldsBasedOnConditionFromData(
 export function coerceFormData(
   formData: FormData | undefined,
   schema: ReturnType<typeof umbracoFormToZod>,
+  options?: CoerceFormDataOptions,
 ): Record<string, unknown> {
   let output = {};
 
@@ -178,11 +407,27 @@ export function coerceFormData(
 
   for (let key of Object.keys(baseDef.shape)) {
     const zodType = baseDef.shape[key];
+    const field = options?.form
+      ? getFieldByAlias(options.form, key)
+      : undefined;
+    const plugin = getFieldTypePlugin(field, options?.fieldTypes);
+    if (field && plugin?.coerceValue) {
+      const value = plugin.coerceValue(
+        isZodArrayType(zodType) ? formData.getAll(key) : formData.get(key),
+        field,
+        options,
+      );
+      if (value !== undefined) {
+        output = { ...output, [key]: value };
+      }
+      continue;
+    }
     parseParams(
       output,
       schema,
       key,
       isZodArrayType(zodType) ? formData.getAll(key) : formData.get(key),
+      options,
     );
   }
 
@@ -196,11 +441,9 @@ export function coerceFieldValue(def: z.ZodTypeAny, value: unknown): any {
     return !!value; // coerce to boolean
   }
   if (baseShape instanceof z.ZodDate) {
-    try {
-      return new Date(value as string);
-    } catch (e) {
-      return value;
-    }
+    // dates are compared as `yyyy-MM-dd` so rules match on the calendar day
+    const date = toDateOnly(value);
+    return date ? formatDateOnly(date) : value;
   }
 
   return value;
@@ -225,7 +468,8 @@ export function coerceRuleValue(def: z.ZodTypeAny, value: unknown): any {
     return !!value; // coerce to boolean
   }
   if (baseShape instanceof z.ZodDate) {
-    return new Date(value as string);
+    const date = toDateOnly(value);
+    return date ? formatDateOnly(date) : value;
   }
   return value;
 }
@@ -253,16 +497,28 @@ function isZodArrayType(def: z.ZodTypeAny): def is z.ZodArray<z.ZodTypeAny> {
   return false;
 }
 
-function processDef(def: z.ZodTypeAny, o: any, key: string, value: string) {
+function processDef(
+  def: z.ZodTypeAny,
+  o: any,
+  key: string,
+  value: string,
+  options?: CoerceFormDataOptions,
+) {
   let parsedValue: any;
   if (def instanceof z.ZodString || def instanceof z.ZodLiteral) {
-    parsedValue = value;
+    // unchecked radio buttons and fields missing from the form data are read as null, which counts as empty
+    parsedValue = value ?? "";
   } else if (def instanceof z.ZodNumber) {
-    const num = Number(value);
+    // fields missing from the form data, e.g. on pages that were not rendered, are read as null
+    const num =
+      typeof value === "string"
+        ? parseNumber(value, options?.culture, isNumberInput(key, options))
+        : Number(value);
     parsedValue = isNaN(num) ? value : num;
   } else if (def instanceof z.ZodDate) {
-    const date = Date.parse(value);
-    parsedValue = isNaN(date) ? value : new Date(date);
+    // empty date inputs are omitted so optional dates pass validation
+    if (value === "" || value === null || value === undefined) return;
+    parsedValue = parseDate(value, options?.culture) ?? value;
   } else if (def instanceof z.ZodBoolean) {
     parsedValue =
       value === "true" || value === ""
@@ -272,20 +528,24 @@ function processDef(def: z.ZodTypeAny, o: any, key: string, value: string) {
           : Boolean(value);
   } else if (def instanceof z.ZodNativeEnum || def instanceof z.ZodEnum) {
     parsedValue = value;
+  } else if (def instanceof z.ZodAny) {
+    // file inputs without a selection still submit an empty file
+    if (isEmptyFile(value)) return;
+    parsedValue = value;
   } else if (def instanceof z.ZodOptional || def instanceof z.ZodDefault) {
     // def._def.innerType is the same as ZodOptional's .unwrap(), which unfortunately doesn't exist on ZodDefault
-    processDef(def._def.innerType, o, key, value);
+    processDef(def._def.innerType, o, key, value, options);
     // return here to prevent overwriting the result of the recursive call
     return;
   } else if (def instanceof z.ZodArray) {
     if (o[key] === undefined) {
       o[key] = [];
     }
-    processDef(def.element, o, key, value);
+    processDef(def.element, o, key, value, options);
     // return here since recursive call will add to array
     return;
   } else if (def instanceof z.ZodEffects) {
-    processDef(def._def.schema, o, key, value);
+    processDef(def._def.schema, o, key, value, options);
     return;
   } else {
     throw new Error(`Unexpected type ${def._def.typeName} for key ${key}`);
@@ -298,7 +558,34 @@ function processDef(def: z.ZodTypeAny, o: any, key: string, value: string) {
   }
 }
 
-function parseParams(o: any, schema: any, key: string, value: any) {
+function isEmptyFile(value: unknown) {
+  return (
+    typeof File !== "undefined" &&
+    value instanceof File &&
+    value.size === 0 &&
+    value.name === ""
+  );
+}
+
+/** checks if a field is rendered as a number input, which reports its value as an invariant number */
+function isNumberInput(alias: string, options?: CoerceFormDataOptions) {
+  if (options?.numberInputs?.includes(alias)) return true;
+  const field = options?.form
+    ? getFieldByAlias(options.form, alias)
+    : undefined;
+  return (
+    field?.type?.id?.toLowerCase() === DefaultFieldType.ShortAnswer &&
+    getFieldSettings(field, DefaultFieldType.ShortAnswer).fieldType === "number"
+  );
+}
+
+function parseParams(
+  o: any,
+  schema: any,
+  key: string,
+  value: any,
+  options?: CoerceFormDataOptions,
+) {
   // find actual shape definition for this key
   let shape = schema;
   while (shape instanceof z.ZodObject || shape instanceof z.ZodEffects) {
@@ -316,7 +603,13 @@ function parseParams(o: any, schema: any, key: string, value: any) {
   if (key.includes(".")) {
     let [parentProp, ...rest] = key.split(".");
     o[parentProp] = o[parentProp] ?? {};
-    parseParams(o[parentProp], shape[parentProp], rest.join("."), value);
+    parseParams(
+      o[parentProp],
+      shape[parentProp],
+      rest.join("."),
+      value,
+      options,
+    );
     return;
   }
   let isArray = false;
@@ -326,6 +619,6 @@ function parseParams(o: any, schema: any, key: string, value: any) {
   }
   const def = shape[key];
   if (def) {
-    processDef(def, o, key, value);
+    processDef(def, o, key, value, options);
   }
 }
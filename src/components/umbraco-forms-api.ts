@@ -0,0 +1,205 @@
+import type { components, paths } from "./umbraco-form.d.ts";
+import type { FormDto, FormEntryDto } from "./types";
+import { serializeFormEntryValues } from "./form-entry";
+import type { FieldTypePlugins } from "./field-type-plugins";
+
+type DefinitionsEndpoint =
+  paths["/umbraco/forms/api/v1/definitions/{id}"]["get"];
+
+/** Problem details returned by the Umbraco Forms delivery api
+ * @see https://docs.umbraco.com/umbraco-forms/developer/headless#requesting-a-form-definition */
+export type ProblemDetails = components["schemas"]["ProblemDetails"];
+
+/** Problem details with validation errors keyed by field alias */
+export type HttpValidationProblemDetails =
+  components["schemas"]["HttpValidationProblemDetails"];
+
+/** Query parameters supported by the form definitions endpoint */
+export type FormDefinitionQuery = NonNullable<
+  DefinitionsEndpoint["parameters"]["query"]
+>;
+
+/** Options for submitting a form entry, `values` are serialized from the form data */
+export type SubmitEntryOptions = Omit<FormEntryDto, "values"> &
+  UmbracoFormsApiConfig & {
+    /** Field type plugins used to serialize the values of their fields */
+    fieldTypes?: FieldTypePlugins;
+  };
+
+/** Configuration shared by all requests made to the Umbraco Forms delivery api */
+export interface UmbracoFormsApiConfig {
+  /** Base url of the Umbraco instance, e.g. `https://example.com`; defaults to the current origin */
+  baseUrl?: string;
+  /** Api key sent with every request when the delivery api is secured */
+  apiKey?: string;
+  /** Name of the header carrying the api key; defaults to `Api-Key` */
+  apiKeyHeader?: string;
+  /** Additional headers sent with every request */
+  headers?: Record<string, string>;
+  /** Custom fetch implementation; defaults to the global `fetch` */
+  fetch?: typeof fetch;
+}
+
+/** Error thrown when the Umbraco Forms delivery api responds with an unsuccessful status code */
+export class UmbracoFormsApiError extends Error {
+  /** HTTP status code of the response */
+  readonly status: number;
+  /** Problem details from the response body, if any */
+  readonly problemDetails?: ProblemDetails | HttpValidationProblemDetails;
+
+  constructor(
+    status: number,
+    problemDetails?: ProblemDetails | HttpValidationProblemDetails,
+    message?: string,
+  ) {
+    super(
+      message ??
+        problemDetails?.detail ??
+        problemDetails?.title ??
+        `Request failed with status code ${status}`,
+    );
+    this.name = "UmbracoFormsApiError";
+    this.status = status;
+    this.problemDetails = problemDetails;
+  }
+}
+
+/** Error thrown when the delivery api responds with `400 Bad Request` */
+export class UmbracoFormsBadRequestError extends UmbracoFormsApiError {
+  constructor(problemDetails?: ProblemDetails | HttpValidationProblemDetails) {
+    super(400, problemDetails);
+    this.name = "UmbracoFormsBadRequestError";
+  }
+}
+
+/** Error thrown when the delivery api responds with `404 Not Found` */
+export class UmbracoFormsNotFoundError extends UmbracoFormsApiError {
+  constructor(problemDetails?: ProblemDetails | HttpValidationProblemDetails) {
+    super(404, problemDetails);
+    this.name = "UmbracoFormsNotFoundError";
+  }
+}
+
+/** Error thrown when the delivery api responds with `422 Unprocessable Entity` */
+export class UmbracoFormsUnprocessableEntityError extends UmbracoFormsApiError {
+  constructor(problemDetails?: ProblemDetails | HttpValidationProblemDetails) {
+    super(422, problemDetails);
+    this.name = "UmbracoFormsUnprocessableEntityError";
+  }
+}
+
+/** fetches a form definition from the Umbraco Forms delivery api
+ * @see https://docs.umbraco.com/umbraco-forms/developer/headless#requesting-a-form-definition */
+export async function getFormDefinition(
+  id: string,
+  options: FormDefinitionQuery & UmbracoFormsApiConfig = {},
+): Promise<FormDto> {
+  const { contentId, culture, ...config } = options;
+  const url = buildUrl(
+    config,
+    `/umbraco/forms/api/v1/definitions/${encodeURIComponent(id)}`,
+    { contentId, culture },
+  );
+
+  const response = await request(config, url, { method: "GET" });
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+  return (await response.json()) as FormDto;
+}
+
+/** submits coerced form data as an entry to the Umbraco Forms delivery api,
+ * resolves with the submitted entry once it has been accepted
+ * @see https://docs.umbraco.com/umbraco-forms/developer/headless#submitting-a-form-entry */
+export async function submitEntry(
+  form: FormDto,
+  data: Record<string, unknown>,
+  options: SubmitEntryOptions = {},
+): Promise<FormEntryDto> {
+  if (!form?.id) {
+    throw new TypeError("Form id is undefined, the entry cannot be submitted");
+  }
+  const { contentId, culture, fieldTypes, ...config } = options;
+  const entry: FormEntryDto = {
+    values: await serializeFormEntryValues(form, data, fieldTypes),
+    contentId,
+    culture,
+  };
+  const url = buildUrl(
+    config,
+    `/umbraco/forms/api/v1/entries/${encodeURIComponent(form.id)}`,
+  );
+
+  const response = await request(config, url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(entry),
+  });
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+  return entry;
+}
+
+/** builds an absolute or root relative url for a delivery api endpoint */
+export function buildUrl(
+  config: UmbracoFormsApiConfig,
+  path: string,
+  query?: Record<string, string | undefined>,
+) {
+  const baseUrl = config.baseUrl?.replace(/\/+$/, "") ?? "";
+  const searchParams = new URLSearchParams();
+  Object.entries(query ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") searchParams.set(key, value);
+  });
+  const search = searchParams.toString();
+  return baseUrl + path + (search ? "?" + search : "");
+}
+
+/** performs a request with the headers required by the delivery api */
+export function request(
+  config: UmbracoFormsApiConfig,
+  url: string,
+  init: RequestInit,
+) {
+  const fetchFn = config.fetch ?? fetch;
+  const headers: Record<string, string> = {
+    Accept: "application/json",
+    ...config.headers,
+    ...(init.headers as Record<string, string> | undefined),
+  };
+  if (config.apiKey) {
+    headers[config.apiKeyHeader ?? "Api-Key"] = config.apiKey;
+  }
+  return fetchFn(url, { ...init, headers });
+}
+
+/** converts an unsuccessful response to a typed error */
+export async function toApiError(
+  response: Response,
+): Promise<UmbracoFormsApiError> {
+  const problemDetails = await readProblemDetails(response);
+  switch (response.status) {
+    case 400:
+      return new UmbracoFormsBadRequestError(problemDetails);
+    case 404:
+      return new UmbracoFormsNotFoundError(problemDetails);
+    case 422:
+      return new UmbracoFormsUnprocessableEntityError(problemDetails);
+    default:
+      return new UmbracoFormsApiError(response.status, problemDetails);
+  }
+}
+
+async function readProblemDetails(
+  response: Response,
+): Promise<ProblemDetails | undefined> {
+  try {
+    const body = await response.json();
+    return body && typeof body === "object"
+      ? (body as ProblemDetails)
+      : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
@@ -0,0 +1,61 @@
+import { createContext, useContext } from "react";
+import { getFieldByAlias } from "./field-utils";
+import type { UmbracoFormContext } from "./types";
+
+/** context holding the state of the closest `UmbracoForm` or `UmbracoFormProvider` */
+export const FormContext = createContext<UmbracoFormContext | null>(null);
+
+/** reads the state of the closest `UmbracoForm` or `UmbracoFormProvider` */
+export function useFormContext(): UmbracoFormContext {
+  const context = useContext(FormContext);
+  if (context === null) {
+    throw new Error(
+      "useFormContext must be used within an UmbracoForm or UmbracoFormProvider",
+    );
+  }
+  return context;
+}
+
+/** reads the definition, value, issues, visibility and attributes of a field by its alias */
+export function useField(alias: string) {
+  const context = useFormContext();
+  const field = getFieldByAlias(context.form, alias);
+
+  return {
+    field,
+    value: context.values?.[alias],
+    issues: context.getFieldIssues(alias),
+    // a field is only visible when its page, fieldset and own conditions are met
+    isVisible: context.visibleFields.some(
+      (visibleField) => visibleField?.alias === alias,
+    ),
+    attributes: field ? context.getFieldProps(field) : undefined,
+  };
+}
+
+/** reads the current page and navigation of the form */
+export function useFormPage() {
+  const {
+    form,
+    currentPage,
+    currentPagePosition,
+    totalPages,
+    steps,
+    next,
+    previous,
+    goTo,
+  } = useFormContext();
+
+  return {
+    page: form?.pages?.[currentPage],
+    currentPage,
+    totalPages,
+    steps,
+    currentPagePosition,
+    isFirstPage: currentPagePosition === 0,
+    isLastPage: currentPagePosition >= totalPages - 1,
+    next,
+    previous,
+    goTo,
+  };
+}
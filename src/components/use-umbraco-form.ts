@@ -0,0 +1,1149 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useTransition,
+  useDeferredValue,
+} from "react";
+import type { ZodIssue } from "zod";
+import {
+  DefaultFieldType,
+  type UmbracoFormConfig,
+  type DtoWithCondition,
+  type FormDto,
+  type FormEntryDto,
+  type FormFieldDto,
+  type FormPageDto,
+  type FormValues,
+} from "./types";
+import {
+  getAllFieldsOnPage,
+  getFieldByAlias,
+  getAttributesForFieldType,
+  getFieldByZodIssue,
+  getValueAttributesForFieldType,
+} from "./field-utils";
+import {
+  coerceFormData,
+  omitFieldsBasedOnConditionFromData,
+  problemDetailsToZodIssues,
+  sortZodIssuesByFieldAlias,
+  umbracoFormToZod,
+} from "./umbraco-form-to-zod";
+import {
+  submitEntry,
+  UmbracoFormsBadRequestError,
+  UmbracoFormsUnprocessableEntityError,
+} from "./umbraco-forms-api";
+import {
+  createConditionEvaluator,
+  getConditionDependents as getConditionDependentsOfForm,
+} from "./condition-graph";
+import { clearDraft, loadDraft, saveDraft } from "./drafts";
+import { getFormCulture } from "./i18n";
+import { PAGE_NAVIGATION_NAME, useIsHydrated } from "./ssr";
+import {
+  createHashNavigationAdapter,
+  type FormPageStep,
+} from "./page-navigation";
+
+/** Identity of the form and page passed to the lifecycle callbacks */
+export interface FormLifecycleDetails {
+  formId?: string;
+  /** Index of the page in the form definition */
+  pageIndex: number;
+  page?: FormPageDto;
+}
+
+/** Kind of element whose visibility is controlled by a condition */
+export type ConditionalDtoKind = "page" | "fieldset" | "field";
+
+export interface UseUmbracoFormOptions<
+  TValues extends FormValues = FormValues,
+> {
+  config?: Partial<UmbracoFormConfig>;
+  /** Initial values keyed by field alias, in the same format as the coerced form data */
+  defaultValues?: Partial<TValues>;
+  /** Controlled values keyed by field alias, in the same format as the coerced form data; use with `onValuesChange` */
+  values?: Partial<TValues>;
+  /** Index of the page shown initially, e.g. the page requested by a server round trip read with `getRequestedPage` */
+  defaultPage?: number;
+  /** Called with the coerced form data whenever a field changes */
+  onValuesChange?: (values: TValues) => void;
+  /** Called when a field changes and passes validation */
+  onChange?: React.FormEventHandler<HTMLFormElement>;
+  /** Called when a field loses focus */
+  onBlur?: React.FocusEventHandler<HTMLFormElement>;
+  /** Called when the form is submitted and passes validation */
+  onSubmit?: React.FormEventHandler<HTMLFormElement>;
+  /** Called with the coerced value whenever a field changes */
+  onFieldChange?: (
+    alias: string,
+    value: unknown,
+    details: FormLifecycleDetails & { field: FormFieldDto },
+  ) => void;
+  /** Called with the page indexes after the current page changed, the details describe the page navigated to */
+  onPageChange?: (
+    from: number,
+    to: number,
+    details: FormLifecycleDetails & { fromPage?: FormPageDto },
+  ) => void;
+  /** Called when navigating, submitting or calling `validate` is blocked by validation issues */
+  onValidationFailed?: (
+    issues: ZodIssue[],
+    details: FormLifecycleDetails & { fields: FormFieldDto[] },
+  ) => void;
+  /** Called when a page, fieldset or field is shown or hidden by its condition */
+  onConditionVisibilityChange?: (
+    dto: DtoWithCondition,
+    visible: boolean,
+    details: FormLifecycleDetails & { kind: ConditionalDtoKind },
+  ) => void;
+  /** Called when an entry has been accepted by the delivery api, requires `config.submitEntry` */
+  onSubmitSuccess?: (
+    entry: FormEntryDto,
+    details: FormLifecycleDetails,
+  ) => void;
+  /** Called when the delivery api rejects an entry, requires `config.submitEntry` */
+  onSubmitError?: (error: unknown, details: FormLifecycleDetails) => void;
+}
+
+/** Headless state of an Umbraco form: values, issues, conditions and page navigation,
+ * together with prop getters for rendering custom markup */
+export function useUmbracoForm<TValues extends FormValues = FormValues>(
+  form: FormDto,
+  options: UseUmbracoFormOptions<TValues> = {},
+) {
+  const [, startValidationTransition] = useTransition();
+  const {
+    config: configOverride = {},
+    defaultValues,
+    values,
+    defaultPage,
+    onValuesChange,
+    onChange,
+    onBlur,
+    onSubmit,
+    onFieldChange,
+    onPageChange,
+    onValidationFailed,
+    onConditionVisibilityChange,
+    onSubmitSuccess,
+    onSubmitError,
+  } = options;
+
+  const culture = getFormCulture(configOverride);
+  // the schema is a dependency of most callbacks below, so it is only rebuilt when its inputs change
+  const schema = useMemo(
+    () =>
+      configOverride?.schema ??
+      umbracoFormToZod(form, configOverride?.mapCustomFieldToZodType, {
+        maxFileSize: configOverride?.maxFileSize,
+        culture,
+        messages: configOverride?.messages,
+        dateRanges: configOverride?.dateRanges,
+        conditionOperators: configOverride?.conditionOperators,
+        fieldTypes: configOverride?.fieldTypes,
+      }),
+    [
+      form,
+      culture,
+      configOverride?.schema,
+      configOverride?.mapCustomFieldToZodType,
+      configOverride?.maxFileSize,
+      configOverride?.messages,
+      configOverride?.dateRanges,
+      configOverride?.conditionOperators,
+      configOverride?.fieldTypes,
+    ],
+  );
+  const config = {
+    shouldValidate: false,
+    shouldUseNativeValidation: false,
+    validateMode: "onSubmit",
+    reValidateMode: "onBlur",
+    ...configOverride,
+    schema,
+  } as UmbracoFormConfig;
+
+  const isControlled = values !== undefined;
+  const draftOptions = useMemo(
+    () =>
+      config.persistence
+        ? typeof config.persistence === "object"
+          ? config.persistence
+          : {}
+        : undefined,
+    [config.persistence],
+  );
+  const isHydrated = useIsHydrated();
+  // drafts are only restored once, a restored draft takes precedence over the default values;
+  // drafts are read from browser storage, so server rendered markup is hydrated first and the draft is restored afterwards
+  const [draft] = useState(() =>
+    draftOptions && !isControlled && isHydrated
+      ? loadDraft(form, draftOptions)
+      : undefined,
+  );
+  const [initialValues, setInitialValues] = useState<
+    Partial<TValues> | undefined
+  >(() =>
+    draft
+      ? { ...defaultValues, ...(draft.values as Partial<TValues>) }
+      : defaultValues,
+  );
+  const [internalData, setInternalData] = useState<FormValues>(() => ({
+    ...initialValues,
+  }));
+  // controlled values take precedence so conditions are evaluated against the values that are rendered
+  const deferredInternalData = useDeferredValue<FormValues>(
+    isControlled ? values : internalData,
+  );
+
+  const formRef = useRef<HTMLFormElement | null>(null);
+  const getFormElement = useCallback(
+    () =>
+      formRef.current ??
+      (typeof document !== "undefined"
+        ? (document.getElementById("form:" + form.id) as HTMLFormElement | null)
+        : null),
+    [form],
+  );
+
+  const [attemptCount, setAttemptCount] = useState<number>(0);
+  const [formIssues, setFormIssues] = useState<ZodIssue[]>([]);
+  const [summaryIssues, setSummaryIssues] = useState<ZodIssue[]>([]);
+  // issues of the last rejected submission, replaced by the issues of the next submission
+  const serverIssues = useRef<ZodIssue[]>([]);
+  const [currentPage, setCurrentPage] = useState(() =>
+    Math.min(
+      draft?.currentPage ?? defaultPage ?? 0,
+      Math.max((form?.pages?.length ?? 1) - 1, 0),
+    ),
+  );
+  const [furthestPage, setFurthestPage] = useState(currentPage);
+  if (currentPage > furthestPage) {
+    setFurthestPage(currentPage);
+  }
+  const isDraftDirty = useRef(draft !== undefined);
+  // incremented when values are replaced after mounting, so uncontrolled inputs can be remounted with the new default values
+  const [valuesVersion, setValuesVersion] = useState(0);
+  const shouldRestoreDraft = useRef(!isHydrated);
+
+  useEffect(() => {
+    if (!isHydrated || !shouldRestoreDraft.current) return;
+    shouldRestoreDraft.current = false;
+    const restoredDraft =
+      draftOptions && !isControlled ? loadDraft(form, draftOptions) : undefined;
+    if (!restoredDraft) return;
+    const restoredValues = {
+      ...defaultValues,
+      ...(restoredDraft.values as Partial<TValues>),
+    };
+    isDraftDirty.current = true;
+    setInitialValues(restoredValues);
+    setInternalData({ ...restoredValues });
+    setCurrentPage(
+      Math.min(
+        restoredDraft.currentPage,
+        Math.max((form?.pages?.length ?? 1) - 1, 0),
+      ),
+    );
+    setValuesVersion((version) => version + 1);
+  }, [isHydrated, form, draftOptions, isControlled, defaultValues]);
+
+  useEffect(() => {
+    if (!draftOptions || !isDraftDirty.current) return;
+    saveDraft(form, deferredInternalData, currentPage, draftOptions);
+  }, [form, deferredInternalData, currentPage, draftOptions]);
+
+  const clearFormDraft = useCallback(() => {
+    if (!draftOptions) return;
+    isDraftDirty.current = false;
+    clearDraft(form, draftOptions);
+  }, [form, draftOptions]);
+
+  const conditionOptions = useMemo(
+    () => ({
+      conditionOperators: config.conditionOperators,
+      fieldTypes: config.fieldTypes,
+    }),
+    [config.conditionOperators, config.fieldTypes],
+  );
+  const coerceOptions = useMemo(
+    () => ({ culture, form, fieldTypes: config.fieldTypes }),
+    [culture, form, config.fieldTypes],
+  );
+  // conditions are evaluated incrementally, only the conditions depending on changed values are evaluated on render
+  const conditionEvaluator = useMemo(
+    () =>
+      createConditionEvaluator(
+        form,
+        config?.mapCustomFieldToZodType,
+        conditionOptions,
+      ),
+    [form, config?.mapCustomFieldToZodType, conditionOptions],
+  );
+  const checkCondition = (dto: DtoWithCondition) =>
+    conditionEvaluator.isConditionFulfilled(dto, deferredInternalData);
+  const getConditionDependents = useCallback(
+    (fieldId: string) => getConditionDependentsOfForm(form, fieldId),
+    [form],
+  );
+
+  // pages are navigated in the order of the visible pages, so pages hidden by conditions are skipped
+  const visiblePages = (form?.pages ?? []).flatMap((page, pageIndex) =>
+    checkCondition(page) ? [pageIndex] : [],
+  );
+  const nearestVisiblePage = getNearestPage(visiblePages, currentPage);
+  if (nearestVisiblePage !== undefined && nearestVisiblePage !== currentPage) {
+    // the current page was hidden by a changed answer
+    setCurrentPage(nearestVisiblePage);
+  }
+  const currentPagePosition =
+    nearestVisiblePage !== undefined
+      ? visiblePages.indexOf(nearestVisiblePage)
+      : 0;
+  const totalPages = form?.pages ? visiblePages.length : 1;
+
+  const getLifecycleDetails = useCallback(
+    (pageIndex: number): FormLifecycleDetails => ({
+      formId: form?.id,
+      pageIndex,
+      page: form?.pages?.[pageIndex],
+    }),
+    [form],
+  );
+
+  const reportValidationFailed = useCallback(
+    (issues: ZodIssue[], pageIndex: number) => {
+      if (typeof onValidationFailed !== "function" || issues.length === 0) {
+        return;
+      }
+      const fields = issues
+        .map((issue) => getFieldByZodIssue(form, issue))
+        .filter(
+          (field, index, fields): field is FormFieldDto =>
+            field !== undefined && fields.indexOf(field) === index,
+        );
+      onValidationFailed(issues, {
+        ...getLifecycleDetails(pageIndex),
+        fields,
+      });
+    },
+    [form, onValidationFailed, getLifecycleDetails],
+  );
+
+  const previousPageRef = useRef(currentPage);
+  useEffect(() => {
+    const from = previousPageRef.current;
+    if (from === currentPage) return;
+    previousPageRef.current = currentPage;
+    if (typeof onPageChange === "function") {
+      onPageChange(from, currentPage, {
+        ...getLifecycleDetails(currentPage),
+        fromPage: form?.pages?.[from],
+      });
+    }
+  }, [form, currentPage, onPageChange, getLifecycleDetails]);
+
+  // only elements with a condition can change their visibility
+  const conditionalDtos = useMemo(
+    () =>
+      onConditionVisibilityChange
+        ? getConditionalDtos(form).map((entry) => ({
+            ...entry,
+            visible: conditionEvaluator.isConditionFulfilled(
+              entry.dto,
+              deferredInternalData,
+            ),
+          }))
+        : [],
+    [
+      form,
+      onConditionVisibilityChange,
+      conditionEvaluator,
+      deferredInternalData,
+    ],
+  );
+  const conditionalDtosRef = useRef(conditionalDtos);
+  const visibilityKey = conditionalDtos
+    .map((entry) => (entry.visible ? 1 : 0))
+    .join("");
+  const previousVisibilityKeyRef = useRef(visibilityKey);
+  // the visibility key changes whenever an element is shown or hidden, so callbacks are only called then
+  useEffect(() => {
+    if (previousVisibilityKeyRef.current === visibilityKey) return;
+    previousVisibilityKeyRef.current = visibilityKey;
+    const previousDtos = conditionalDtosRef.current;
+    conditionalDtosRef.current = conditionalDtos;
+    if (typeof onConditionVisibilityChange !== "function") return;
+    conditionalDtos.forEach(({ dto, kind, pageIndex, visible }) => {
+      const previous = previousDtos.find((entry) => entry.dto === dto);
+      if (!previous || previous.visible === visible) return;
+      onConditionVisibilityChange(dto, visible, {
+        ...getLifecycleDetails(pageIndex),
+        kind,
+      });
+    });
+  }, [
+    visibilityKey,
+    conditionalDtos,
+    onConditionVisibilityChange,
+    getLifecycleDetails,
+  ]);
+
+  const validateFormData = useCallback(
+    (coercedData: Record<string, unknown>, fieldName?: string) => {
+      const parsedForm = config?.schema?.safeParse(coercedData);
+      if (parsedForm?.success) {
+        setFormIssues([]);
+      } else if (parsedForm?.error?.issues) {
+        setFormIssues((prev) =>
+          sortZodIssuesByFieldAlias(
+            form,
+            fieldName
+              ? [
+                  ...prev.filter((issue) => issue.path.join(".") !== fieldName),
+                  ...parsedForm.error.issues.filter(
+                    (issue) => issue.path.join(".") === fieldName,
+                  ),
+                ]
+              : parsedForm.error.issues,
+          ),
+        );
+      }
+      return parsedForm;
+    },
+    [form, config.schema],
+  );
+
+  /** gets the issues of the visible fields on a page, fields with conditions that are not met are ignored */
+  const getPageIssues = useCallback(
+    (pageIndex: number, issues: ZodIssue[], data: FormValues) => {
+      const fieldsWithConditionsMet = conditionEvaluator
+        .getVisibleFields(data)
+        .map((field) => field.alias);
+
+      const aliasesOnPage =
+        getAllFieldsOnPage(form?.pages?.[pageIndex])
+          ?.filter((field) => fieldsWithConditionsMet.includes(field?.alias))
+          .map((field) => field?.alias) ?? [];
+
+      return issues.filter((issue) =>
+        aliasesOnPage.includes(getFieldByZodIssue(form, issue)?.alias),
+      );
+    },
+    [form, conditionEvaluator],
+  );
+
+  const isCurrentPageValid = useCallback(
+    (onInvalid?: (pageIssues: ZodIssue[]) => void) => {
+      const allIssues =
+        validateFormData(deferredInternalData).error?.issues ?? [];
+
+      // only fields on the current page block the user from going to the next page
+      const pageIssues = getPageIssues(
+        currentPage,
+        allIssues,
+        deferredInternalData,
+      );
+
+      if (pageIssues.length > 0) {
+        setAttemptCount((prev) => prev + 1);
+        if (form.showValidationSummary) {
+          setSummaryIssues(pageIssues);
+        }
+        onInvalid?.(pageIssues);
+        return false;
+      }
+      return true;
+    },
+    [form, validateFormData, getPageIssues, currentPage, deferredInternalData],
+  );
+
+  const handleOnChange = useCallback(
+    (e: React.ChangeEvent<HTMLFormElement>) => {
+      formRef.current = e.currentTarget;
+      const field = e.target;
+      const formData = new FormData(e.currentTarget);
+      const coercedData = coerceFormData(
+        formData,
+        config.schema,
+        coerceOptions,
+      );
+      isDraftDirty.current = true;
+      if (!isControlled) {
+        setInternalData(coercedData);
+      }
+      if (typeof onValuesChange === "function") {
+        onValuesChange(coercedData as TValues);
+      }
+      const changedField = getFieldByAlias(form, field.name);
+      if (changedField?.alias && typeof onFieldChange === "function") {
+        onFieldChange(changedField.alias, coercedData[changedField.alias], {
+          ...getLifecycleDetails(currentPage),
+          field: changedField,
+        });
+      }
+
+      if (config.shouldValidate) {
+        const validateOnChange =
+          config.validateMode === "onChange" ||
+          config.validateMode === "all" ||
+          (attemptCount > 0 && config.reValidateMode === "onChange");
+
+        if (validateOnChange) {
+          startValidationTransition(() => {
+            if (validateFormData(coercedData, field.name).success === false) {
+              return;
+            }
+            if (typeof onChange === "function") {
+              onChange(e);
+            }
+          });
+        }
+      } else if (typeof onChange === "function") {
+        onChange(e);
+      }
+    },
+    [
+      config.schema,
+      coerceOptions,
+      config.shouldValidate,
+      attemptCount,
+      validateFormData,
+      isControlled,
+      onValuesChange,
+      form,
+      currentPage,
+      onFieldChange,
+      getLifecycleDetails,
+    ],
+  );
+
+  const handleOnBlur = useCallback(
+    (e: React.FocusEvent<HTMLFormElement, HTMLElement>) => {
+      const field = e.target;
+      const formData = new FormData(e.currentTarget as HTMLFormElement);
+      const coercedData = coerceFormData(
+        formData,
+        config.schema,
+        coerceOptions,
+      );
+
+      if (config.shouldValidate) {
+        const validateOnBlur =
+          config.validateMode === "onBlur" ||
+          config.validateMode === "all" ||
+          (attemptCount > 0 && config.reValidateMode === "onBlur");
+
+        if (validateOnBlur) {
+          startValidationTransition(() => {
+            validateFormData(coercedData, field.name);
+            if (form.pages && form.pages?.length > 1) {
+              isCurrentPageValid();
+            }
+          });
+        }
+      }
+
+      if (typeof onBlur === "function") {
+        onBlur(e);
+      }
+    },
+    [
+      validateFormData,
+      form,
+      isCurrentPageValid,
+      config.shouldValidate,
+      coerceOptions,
+    ],
+  );
+
+  const scrollToTopOfForm = useCallback(() => {
+    const formElement = getFormElement();
+    if (formElement) {
+      formElement.scrollIntoView({ behavior: "smooth", block: "start" });
+    }
+  }, [getFormElement]);
+
+  const focusFirstInvalidField = useCallback(() => {
+    const fieldWithIssues = formIssues?.find((issue) => issue.path.length > 0);
+    if (fieldWithIssues) {
+      const fieldId = fieldWithIssues.path.join(".");
+      if (fieldId) {
+        const fieldElement = getFormElement()?.querySelector(
+          '[name="' + fieldId + '"]',
+        ) as HTMLInputElement | null;
+        if (fieldElement) {
+          fieldElement.focus();
+        }
+      }
+    }
+  }, [formIssues, getFormElement]);
+
+  const next = useCallback(() => {
+    const nextPage = visiblePages.find((page) => page > currentPage);
+    if (nextPage === undefined) return;
+    if (
+      config.shouldValidate &&
+      (config.validateMode === "onSubmit" || config.validateMode === "all")
+    ) {
+      startValidationTransition(() => {
+        const isValid = isCurrentPageValid((pageIssues) =>
+          reportValidationFailed(pageIssues, currentPage),
+        );
+        if (isValid === false) {
+          scrollToTopOfForm();
+          focusFirstInvalidField();
+          setAttemptCount((prev) => prev + 1);
+          return;
+        }
+        setCurrentPage(nextPage);
+        setAttemptCount(0);
+      });
+    } else {
+      setCurrentPage(nextPage);
+    }
+  }, [
+    visiblePages,
+    currentPage,
+    isCurrentPageValid,
+    reportValidationFailed,
+    focusFirstInvalidField,
+    scrollToTopOfForm,
+    config.shouldValidate,
+  ]);
+
+  const previous = useCallback(() => {
+    const previousPage = [...visiblePages]
+      .reverse()
+      .find((page) => page < currentPage);
+    if (previousPage === undefined) return;
+    setCurrentPage(previousPage);
+    scrollToTopOfForm();
+  }, [visiblePages, currentPage, scrollToTopOfForm]);
+
+  const submitFormEntry = useCallback(
+    (data: Record<string, unknown>) => {
+      if (!config.submitEntry) {
+        clearFormDraft();
+        return;
+      }
+      const options =
+        typeof config.submitEntry === "object" ? config.submitEntry : {};
+      submitEntry(form, data, {
+        fieldTypes: config.fieldTypes,
+        ...options,
+      }).then(
+        (entry) => {
+          clearFormDraft();
+          serverIssues.current = [];
+          setFormIssues([]);
+          setSummaryIssues([]);
+          if (typeof onSubmitSuccess === "function") {
+            onSubmitSuccess(entry, getLifecycleDetails(currentPage));
+          }
+        },
+        (error) => {
+          if (
+            error instanceof UmbracoFormsBadRequestError ||
+            error instanceof UmbracoFormsUnprocessableEntityError
+          ) {
+            // show server side validation errors the same way as client side issues
+            const issues = problemDetailsToZodIssues(
+              form,
+              error.problemDetails,
+            );
+            if (issues.length > 0) {
+              const fieldIssues = issues.filter(
+                (issue) => issue.path.length > 0,
+              );
+              const previousServerIssues = serverIssues.current;
+              serverIssues.current = fieldIssues;
+              setFormIssues((prev) =>
+                sortZodIssuesByFieldAlias(form, [
+                  ...prev.filter(
+                    (issue) => !previousServerIssues.includes(issue),
+                  ),
+                  ...fieldIssues,
+                ]),
+              );
+              setSummaryIssues(
+                form.showValidationSummary
+                  ? issues
+                  : issues.filter((issue) => issue.path.length === 0),
+              );
+              setAttemptCount((prev) => prev + 1);
+            }
+          }
+          if (typeof onSubmitError === "function") {
+            onSubmitError(error, getLifecycleDetails(currentPage));
+          }
+        },
+      );
+    },
+    [
+      form,
+      config.submitEntry,
+      config.fieldTypes,
+      currentPage,
+      onSubmitSuccess,
+      onSubmitError,
+      clearFormDraft,
+      getLifecycleDetails,
+    ],
+  );
+
+  const handleOnSubmit = useCallback(
+    (e: React.FormEvent<HTMLFormElement>) => {
+      formRef.current = e.currentTarget;
+      if (config.shouldValidate) {
+        e.preventDefault();
+        startValidationTransition(() => {
+          setAttemptCount((prev) => prev + 1);
+          const submitData = coerceFormData(
+            new FormData(e.currentTarget),
+            config.schema,
+            coerceOptions,
+          );
+          const validationResult = validateFormData(submitData);
+          if (validationResult.success === false) {
+            focusFirstInvalidField();
+            if (form.showValidationSummary) {
+              setSummaryIssues(validationResult.error.issues);
+            }
+            reportValidationFailed(validationResult.error.issues, currentPage);
+            return;
+          }
+          setSummaryIssues([]);
+          if (typeof onSubmit === "function") {
+            onSubmit(e);
+          }
+          submitFormEntry(validationResult.data);
+        });
+      } else if (config.submitEntry) {
+        e.preventDefault();
+        const submitData = omitFieldsBasedOnConditionFromData(
+          form,
+          coerceFormData(
+            new FormData(e.currentTarget),
+            config.schema,
+            coerceOptions,
+          ),
+          config.mapCustomFieldToZodType,
+          conditionOptions,
+        );
+        if (typeof onSubmit === "function") {
+          onSubmit(e);
+        }
+        submitFormEntry(submitData);
+      } else {
+        if (typeof onSubmit === "function") {
+          onSubmit(e);
+        }
+        clearFormDraft();
+      }
+    },
+    [
+      focusFirstInvalidField,
+      form,
+      config.schema,
+      coerceOptions,
+      config.submitEntry,
+      config.mapCustomFieldToZodType,
+      conditionOptions,
+      onSubmit,
+      submitFormEntry,
+      clearFormDraft,
+      currentPage,
+      reportValidationFailed,
+    ],
+  );
+
+  const hasScoreTokens = useRef(false);
+
+  const handleOnSubmitWithScoreTokens = useCallback(
+    (e: React.FormEvent<HTMLFormElement>) => {
+      const formElement = e.currentTarget;
+      const captcha = config.captcha;
+      const scoreFields = captcha
+        ? conditionEvaluator
+            .getVisibleFields(deferredInternalData)
+            .filter(
+              (field) =>
+                field?.type?.id === DefaultFieldType.RecaptchaV3WithScore,
+            )
+        : [];
+
+      if (!captcha || scoreFields.length === 0 || hasScoreTokens.current) {
+        hasScoreTokens.current = false;
+        handleOnSubmit(e);
+        return;
+      }
+
+      // score tokens are short lived, so they are obtained right before submitting and the form is then submitted again
+      e.preventDefault();
+      Promise.all(
+        scoreFields.map(async (field) => {
+          const token = await captcha
+            .getScoreToken("submit")
+            // an empty token surfaces as a validation issue for the field
+            .catch(() => "");
+          const input = formElement.elements.namedItem(field.alias ?? "");
+          if (input instanceof HTMLInputElement) {
+            input.value = token;
+          }
+        }),
+      ).then(() => {
+        hasScoreTokens.current = true;
+        formElement.requestSubmit();
+      });
+    },
+    [config.captcha, conditionEvaluator, deferredInternalData, handleOnSubmit],
+  );
+
+  const visibleFields =
+    conditionEvaluator.getVisibleFields(deferredInternalData);
+
+  const getFieldIssues = useCallback(
+    (alias?: string) =>
+      formIssues?.filter((issue) => issue.path.join(".") === alias) ?? [],
+    [formIssues],
+  );
+
+  const getFieldValue = (alias?: string) =>
+    alias ? (isControlled ? values : initialValues)?.[alias] : undefined;
+
+  /** shows a page and returns the page that is shown, jumping ahead is blocked
+   * until the earlier pages pass validation, the first invalid page is shown instead;
+   * the initial page from the url is not an attempt by the user, so it only redirects without showing issues */
+  const showPage = useCallback(
+    (page: number, isInitial: boolean) => {
+      if (!visiblePages.includes(page)) return currentPage;
+      let targetPage = page;
+
+      if (config.shouldValidate && page > currentPage) {
+        const formElement = getFormElement();
+        const data = formElement
+          ? coerceFormData(
+              new FormData(formElement),
+              config.schema,
+              coerceOptions,
+            )
+          : deferredInternalData;
+        const issues = validateFormData(data).error?.issues ?? [];
+        const invalidPage = form.pages
+          ?.slice(0, page)
+          .findIndex(
+            (_, pageIndex) => getPageIssues(pageIndex, issues, data).length > 0,
+          );
+
+        if (invalidPage !== undefined && invalidPage !== -1) {
+          targetPage = invalidPage;
+        }
+        if (targetPage !== page && !isInitial) {
+          setAttemptCount((prev) => prev + 1);
+          const pageIssues = getPageIssues(targetPage, issues, data);
+          if (form.showValidationSummary) {
+            setSummaryIssues(pageIssues);
+          }
+          reportValidationFailed(pageIssues, targetPage);
+        }
+      }
+
+      if (targetPage !== currentPage) {
+        setCurrentPage(targetPage);
+        scrollToTopOfForm();
+      }
+      return targetPage;
+    },
+    [
+      form,
+      config.shouldValidate,
+      config.schema,
+      coerceOptions,
+      visiblePages,
+      currentPage,
+      deferredInternalData,
+      getFormElement,
+      getPageIssues,
+      validateFormData,
+      scrollToTopOfForm,
+      reportValidationFailed,
+    ],
+  );
+
+  /** navigates to a page and returns the page that is shown, jumping ahead is blocked
+   * until the earlier pages pass validation, the first invalid page is shown instead */
+  const goTo = useCallback((page: number) => showPage(page, false), [showPage]);
+
+  const pageNavigation = useMemo(
+    () =>
+      config.pageNavigation
+        ? typeof config.pageNavigation === "object"
+          ? config.pageNavigation
+          : createHashNavigationAdapter()
+        : undefined,
+    [config.pageNavigation],
+  );
+  // the latest values are read from refs, so the url is only subscribed to once per adapter
+  const showPageRef = useRef(showPage);
+  showPageRef.current = showPage;
+  const currentPageRef = useRef(currentPage);
+  currentPageRef.current = currentPage;
+  const isNavigatingFromUrl = useRef(true);
+
+  useEffect(() => {
+    if (!pageNavigation) return;
+    const handleUrlChange = (isInitial = false) => {
+      const page = pageNavigation.getPage();
+      if (page === undefined || page === currentPageRef.current) return;
+      isNavigatingFromUrl.current = true;
+      const shownPage = showPageRef.current(page, isInitial);
+      if (shownPage === currentPageRef.current) {
+        // the navigation was blocked, so the url is restored to the page that is shown
+        pageNavigation.setPage(shownPage, { replace: true });
+      }
+    };
+    // deep links are applied on mount
+    handleUrlChange(true);
+    return pageNavigation.subscribe(() => handleUrlChange());
+  }, [pageNavigation]);
+
+  useEffect(() => {
+    if (!pageNavigation) return;
+    const urlPage = pageNavigation.getPage();
+    if (urlPage !== currentPage) {
+      // pages shown because of a url change or a correction of it replace the current history entry
+      pageNavigation.setPage(currentPage, {
+        replace: isNavigatingFromUrl.current || urlPage === undefined,
+      });
+    }
+    isNavigatingFromUrl.current = false;
+  }, [pageNavigation, currentPage]);
+
+  const steps = (form?.pages ?? []).flatMap(
+    (page, pageIndex): FormPageStep[] => {
+      if (!visiblePages.includes(pageIndex)) return [];
+      const isInvalid =
+        getPageIssues(pageIndex, formIssues, deferredInternalData).length > 0;
+      return [
+        {
+          page,
+          pageIndex,
+          stepNumber: visiblePages.indexOf(pageIndex) + 1,
+          status:
+            pageIndex === currentPage
+              ? "current"
+              : isInvalid
+                ? "invalid"
+                : pageIndex < furthestPage
+                  ? "completed"
+                  : "upcoming",
+        },
+      ];
+    },
+  );
+
+  /** validates all visible fields and shows the issues as if the form was submitted */
+  const validate = useCallback(() => {
+    setAttemptCount((prev) => prev + 1);
+    const formElement = getFormElement();
+    const validationResult = validateFormData(
+      formElement
+        ? coerceFormData(
+            new FormData(formElement),
+            config.schema,
+            coerceOptions,
+          )
+        : deferredInternalData,
+    );
+    if (validationResult.success) {
+      setSummaryIssues([]);
+    } else {
+      if (form.showValidationSummary) {
+        setSummaryIssues(validationResult.error.issues);
+      }
+      reportValidationFailed(validationResult.error.issues, currentPage);
+    }
+    return validationResult;
+  }, [
+    form,
+    currentPage,
+    reportValidationFailed,
+    config.schema,
+    coerceOptions,
+    deferredInternalData,
+    getFormElement,
+    validateFormData,
+  ]);
+
+  const submit = useCallback(() => {
+    getFormElement()?.requestSubmit();
+  }, [getFormElement]);
+
+  const reset = useCallback(() => {
+    getFormElement()?.reset();
+    clearFormDraft();
+    // a restored draft is the default value of the uncontrolled inputs, so they are remounted with the default values
+    setInitialValues(defaultValues);
+    setValuesVersion((version) => version + 1);
+    setInternalData({ ...defaultValues });
+    serverIssues.current = [];
+    setFormIssues([]);
+    setSummaryIssues([]);
+    setAttemptCount(0);
+    setCurrentPage(0);
+    setFurthestPage(0);
+  }, [defaultValues, getFormElement, clearFormDraft]);
+
+  const getFormProps = (
+    props: React.FormHTMLAttributes<HTMLFormElement> = {},
+  ) => ({
+    ...props,
+    // the element is looked up by id, so render functions without ref forwarding work as well
+    id: "form:" + form.id,
+    name: form.id,
+    onChange: handleOnChange,
+    onSubmit: handleOnSubmitWithScoreTokens,
+    onBlur: handleOnBlur,
+  });
+
+  const getFieldProps = (field: FormFieldDto) => ({
+    ...getAttributesForFieldType(
+      field,
+      getFieldIssues(field.alias),
+      form,
+      config,
+    ),
+    ...getValueAttributesForFieldType(
+      field,
+      getFieldValue(field.alias),
+      isControlled,
+    ),
+  });
+
+  // pages are navigated client side once hydrated, before that all pages are shown at once unless they are navigated by round trips to the server
+  const isRoundTrip = !isHydrated && config.noScriptNavigation === "roundTrip";
+  const isPaged = isHydrated || isRoundTrip;
+
+  // without javascript the navigation buttons submit the form, the server reads the requested page with `getRequestedPage`
+  const getRoundTripButtonProps = (navigation: "next" | "previous") =>
+    isRoundTrip
+      ? {
+          type: "submit" as const,
+          name: PAGE_NAVIGATION_NAME,
+          value: navigation,
+          formNoValidate: true,
+        }
+      : { type: "button" as const };
+
+  const getNextButtonProps = (
+    props: React.ButtonHTMLAttributes<HTMLButtonElement> = {},
+  ) => ({
+    ...props,
+    ...getRoundTripButtonProps("next"),
+    hidden: currentPagePosition >= totalPages - 1,
+    onClick: (e: React.MouseEvent<HTMLButtonElement>) => {
+      e.preventDefault();
+      next();
+    },
+  });
+
+  const getPreviousButtonProps = (
+    props: React.ButtonHTMLAttributes<HTMLButtonElement> = {},
+  ) => ({
+    ...props,
+    ...getRoundTripButtonProps("previous"),
+    hidden: currentPagePosition === 0,
+    onClick: (e: React.MouseEvent<HTMLButtonElement>) => {
+      e.preventDefault();
+      previous();
+    },
+  });
+
+  const getSubmitButtonProps = (
+    props: React.ButtonHTMLAttributes<HTMLButtonElement> = {},
+  ) => ({
+    ...props,
+    type: "submit" as const,
+    hidden: isPaged && totalPages > 1 && currentPagePosition !== totalPages - 1,
+  });
+
+  return {
+    form,
+    config,
+    values: deferredInternalData as Partial<TValues>,
+    isControlled,
+    isHydrated,
+    isPaged,
+    valuesVersion,
+    currentPage,
+    currentPagePosition,
+    visiblePages,
+    totalPages,
+    steps,
+    attemptCount,
+    formIssues,
+    summaryIssues,
+    visibleFields,
+    checkCondition,
+    getConditionDependents,
+    getFieldIssues,
+    getFieldValue,
+    next,
+    previous,
+    goTo,
+    validate,
+    submit,
+    reset,
+    getFormProps,
+    getFieldProps,
+    getNextButtonProps,
+    getPreviousButtonProps,
+    getSubmitButtonProps,
+  };
+}
+
+/** finds the visible page closest to a page, preferring the earlier page when two are equally close */
+function getNearestPage(pages: number[], page: number) {
+  return pages.reduce<number | undefined>(
+    (nearest, candidate) =>
+      nearest === undefined ||
+      Math.abs(candidate - page) < Math.abs(nearest - page)
+        ? candidate
+        : nearest,
+    undefined,
+  );
+}
+
+/** lists the pages, fieldsets and fields that have a condition, together with the page they are on */
+function getConditionalDtos(form: FormDto) {
+  const entries: {
+    dto: DtoWithCondition;
+    kind: ConditionalDtoKind;
+    pageIndex: number;
+  }[] = [];
+  form?.pages?.forEach((page, pageIndex) => {
+    if (page?.condition) entries.push({ dto: page, kind: "page", pageIndex });
+    page?.fieldsets?.forEach((fieldset) => {
+      if (fieldset?.condition) {
+        entries.push({ dto: fieldset, kind: "fieldset", pageIndex });
+      }
+      fieldset?.columns?.forEach((column) =>
+        column?.fields?.forEach((field) => {
+          if (field?.condition) {
+            entries.push({ dto: field, kind: "field", pageIndex });
+          }
+        }),
+      );
+    });
+  });
+  return entries;
+}
+
+/** State and prop getters returned by `useUmbracoForm` */
+export type UmbracoFormState = ReturnType<typeof useUmbracoForm>;
@@ -0,0 +1,334 @@
+import { z } from "zod";
+import { DefaultFieldType, type FormDto } from "./types";
+import type { MapFormFieldToZodFn } from "./umbraco-form-to-zod";
+import { getConditionCycles } from "./condition-graph";
+import { type ConditionOperators, getConditionOperator } from "./conditions";
+import { getFieldById } from "./field-utils";
+import type { CaptchaProvider } from "./captcha";
+import {
+  type FieldTypePlugins,
+  getFieldTypePlugin,
+} from "./field-type-plugins";
+
+/** Code of a problem found in a form definition */
+export type FormDefinitionDiagnosticCode =
+  | "invalid_structure"
+  | "missing_id"
+  | "missing_alias"
+  | "duplicate_id"
+  | "duplicate_alias"
+  | "unknown_rule_field"
+  | "unknown_operator"
+  | "unknown_field_type"
+  | "invalid_pattern"
+  | "invalid_maximum_length"
+  | "missing_captcha_provider"
+  | "circular_condition";
+
+/** Problem found in a form definition */
+export interface FormDefinitionDiagnostic {
+  code: FormDefinitionDiagnosticCode;
+  message: string;
+  /** Path to the offending value in the definition, e.g. `["pages", 0, "fieldsets", 1]` */
+  path: (string | number)[];
+}
+
+/** Result of validating a form definition, `form` is only set when no problems were found */
+export type FormDefinitionValidationResult =
+  | { success: true; form: FormDto; diagnostics: [] }
+  | {
+      success: false;
+      form?: undefined;
+      diagnostics: FormDefinitionDiagnostic[];
+    };
+
+/** Options for validating a form definition */
+export interface ValidateFormDefinitionOptions {
+  /** Function used to map custom field types, field types that are not built in are reported when it is missing */
+  mapCustomFieldToZodType?: MapFormFieldToZodFn;
+  /** Custom condition rule operators, operators that are neither built in nor registered are reported */
+  conditionOperators?: ConditionOperators;
+  /** Field type plugins, field types with a registered plugin are not reported as unknown */
+  fieldTypes?: FieldTypePlugins;
+  /** Captcha provider of the form, captcha fields are reported when it is missing as they can never be filled */
+  captcha?: CaptchaProvider;
+}
+
+const conditionSchema = z
+  .object({
+    actionType: z.enum(["Show", "Hide"]).optional(),
+    logicType: z.enum(["All", "Any"]).optional(),
+    rules: z
+      .array(
+        z
+          .object({
+            field: z.string().optional(),
+            // operators are checked against the built-in and registered operators after parsing
+            operator: z.string().optional(),
+            value: z.string().optional(),
+          })
+          .passthrough(),
+      )
+      .optional(),
+  })
+  .passthrough();
+
+const fieldSchema = z
+  .object({
+    id: z.string().optional(),
+    alias: z.string().optional(),
+    caption: z.string().optional(),
+    required: z.boolean().optional(),
+    pattern: z.string().optional().nullable(),
+    condition: conditionSchema.optional().nullable(),
+    preValues: z
+      .array(
+        z
+          .object({
+            value: z.string().optional(),
+            caption: z.string().optional(),
+          })
+          .passthrough(),
+      )
+      .optional(),
+    settings: z.record(z.unknown()).optional(),
+    type: z
+      .object({ id: z.string(), name: z.string().optional() })
+      .passthrough(),
+  })
+  .passthrough();
+
+const fieldsetSchema = z
+  .object({
+    id: z.string().optional(),
+    caption: z.string().optional().nullable(),
+    condition: conditionSchema.optional().nullable(),
+    columns: z
+      .array(
+        z
+          .object({
+            caption: z.string().optional().nullable(),
+            width: z.number().optional(),
+            fields: z.array(fieldSchema).optional(),
+          })
+          .passthrough(),
+      )
+      .optional(),
+  })
+  .passthrough();
+
+/** zod schema describing the structure of a form definition (pages → fieldsets → columns → fields) */
+export const formDefinitionSchema = z
+  .object({
+    id: z.string().optional(),
+    name: z.string().optional(),
+    pages: z
+      .array(
+        z
+          .object({
+            caption: z.string().optional().nullable(),
+            condition: conditionSchema.optional().nullable(),
+            fieldsets: z.array(fieldsetSchema).optional(),
+          })
+          .passthrough(),
+      )
+      .optional(),
+  })
+  .passthrough();
+
+type FormDefinition = z.infer<typeof formDefinitionSchema>;
+type Path = (string | number)[];
+
+const DEFAULT_FIELD_TYPE_IDS: string[] = Object.values(DefaultFieldType);
+const CAPTCHA_FIELD_TYPE_IDS: string[] = [
+  DefaultFieldType.Recaptcha2,
+  DefaultFieldType.RecaptchaV3WithScore,
+];
+
+/** validates a form definition before it is rendered, e.g. the json returned by the delivery api,
+ * and returns diagnostics for problems that would otherwise only fail while rendering or validating */
+export function validateFormDefinition(
+  json: unknown,
+  options: ValidateFormDefinitionOptions = {},
+): FormDefinitionValidationResult {
+  const result = formDefinitionSchema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      diagnostics: result.error.issues.map((issue) => ({
+        code: "invalid_structure",
+        message: issue.message,
+        path: issue.path,
+      })),
+    };
+  }
+
+  const diagnostics = [
+    ...getFormDefinitionDiagnostics(result.data, options),
+    ...getConditionCycles(json as FormDto).map(
+      (cycle): FormDefinitionDiagnostic => ({
+        code: "circular_condition",
+        message: `Conditions depend on each other in a cycle: ${cycle
+          .map(
+            (fieldId) =>
+              getFieldById(json as FormDto, fieldId)?.alias ?? fieldId,
+          )
+          .join(" → ")}`,
+        path: [],
+      }),
+    ),
+  ];
+  return diagnostics.length === 0
+    ? { success: true, form: json as FormDto, diagnostics: [] }
+    : { success: false, diagnostics };
+}
+
+function getFormDefinitionDiagnostics(
+  form: FormDefinition,
+  options: ValidateFormDefinitionOptions,
+): FormDefinitionDiagnostic[] {
+  const diagnostics: FormDefinitionDiagnostic[] = [];
+  const report = (
+    code: FormDefinitionDiagnosticCode,
+    message: string,
+    path: Path,
+  ) => diagnostics.push({ code, message, path });
+
+  const fields = (form.pages ?? []).flatMap((page, pageIndex) =>
+    (page.fieldsets ?? []).flatMap((fieldset, fieldsetIndex) =>
+      (fieldset.columns ?? []).flatMap((column, columnIndex) =>
+        (column.fields ?? []).map((field, fieldIndex) => ({
+          field,
+          path: [
+            "pages",
+            pageIndex,
+            "fieldsets",
+            fieldsetIndex,
+            "columns",
+            columnIndex,
+            "fields",
+            fieldIndex,
+          ] as Path,
+        })),
+      ),
+    ),
+  );
+  const fieldIds = new Set(
+    fields.flatMap(({ field }) => (field.id ? [field.id] : [])),
+  );
+  const seenIds = new Set<string>();
+  const seenAliases = new Set<string>();
+
+  const checkCondition = (
+    condition: z.infer<typeof conditionSchema> | null | undefined,
+    path: Path,
+  ) => {
+    condition?.rules?.forEach((rule, ruleIndex) => {
+      if (!getConditionOperator(rule.operator, options.conditionOperators)) {
+        report(
+          "unknown_operator",
+          `Condition rule uses the operator "${rule.operator ?? ""}", which is neither built in nor registered in conditionOperators`,
+          [...path, "condition", "rules", ruleIndex, "operator"],
+        );
+      }
+      if (!rule.field || !fieldIds.has(rule.field)) {
+        report(
+          "unknown_rule_field",
+          `Condition rule references field id "${rule.field ?? ""}", which is not in the form definition`,
+          [...path, "condition", "rules", ruleIndex, "field"],
+        );
+      }
+    });
+  };
+
+  form.pages?.forEach((page, pageIndex) => {
+    checkCondition(page.condition, ["pages", pageIndex]);
+    page.fieldsets?.forEach((fieldset, fieldsetIndex) => {
+      const path = ["pages", pageIndex, "fieldsets", fieldsetIndex];
+      if (!fieldset.id) {
+        report("missing_id", "Fieldset has no id", [...path, "id"]);
+      }
+      checkCondition(fieldset.condition, path);
+    });
+  });
+
+  fields.forEach(({ field, path }) => {
+    const name = field.alias || field.caption || field.id || "";
+    if (!field.id) {
+      report("missing_id", `Field "${name}" has no id`, [...path, "id"]);
+    } else if (seenIds.has(field.id)) {
+      report(
+        "duplicate_id",
+        `Field id "${field.id}" is used by more than one field`,
+        [...path, "id"],
+      );
+    }
+    if (field.id) seenIds.add(field.id);
+
+    if (!field.alias) {
+      report("missing_alias", `Field "${name}" has no alias`, [
+        ...path,
+        "alias",
+      ]);
+    } else if (seenAliases.has(field.alias)) {
+      report(
+        "duplicate_alias",
+        `Field alias "${field.alias}" is used by more than one field`,
+        [...path, "alias"],
+      );
+    }
+    if (field.alias) seenAliases.add(field.alias);
+
+    if (
+      !DEFAULT_FIELD_TYPE_IDS.includes(field.type.id.toLowerCase()) &&
+      typeof options.mapCustomFieldToZodType !== "function" &&
+      !getFieldTypePlugin(field, options.fieldTypes)
+    ) {
+      report(
+        "unknown_field_type",
+        `Field "${name}" has the unknown type ${field.type.name ?? ""} (${field.type.id}) and neither a custom mapper nor a field type plugin is configured`,
+        [...path, "type", "id"],
+      );
+    }
+
+    if (
+      CAPTCHA_FIELD_TYPE_IDS.includes(field.type.id.toLowerCase()) &&
+      !options.captcha
+    ) {
+      report(
+        "missing_captcha_provider",
+        `Field "${name}" is a captcha field, but no captcha provider is configured, so the field can never be filled`,
+        [...path, "type", "id"],
+      );
+    }
+
+    if (field.pattern) {
+      try {
+        new RegExp(field.pattern);
+      } catch (e) {
+        report(
+          "invalid_pattern",
+          `Field "${name}" has an invalid pattern: ${(e as Error).message}`,
+          [...path, "pattern"],
+        );
+      }
+    }
+
+    const maximumLength = field.settings?.maximumLength;
+    if (
+      maximumLength !== undefined &&
+      maximumLength !== "" &&
+      !/^\d+$/.test(String(maximumLength).trim())
+    ) {
+      report(
+        "invalid_maximum_length",
+        `Field "${name}" has a maximum length of "${String(maximumLength)}", which is not a non-negative whole number`,
+        [...path, "settings", "maximumLength"],
+      );
+    }
+
+    checkCondition(field.condition, path);
+  });
+
+  return diagnostics;
+}
@@ -0,0 +1,484 @@
+/** form definition with a field of every built-in field type */
+export default {
+  disableDefaultStylesheet: false,
+  fieldIndicationType: "MarkMandatoryFields",
+  hideFieldValidation: false,
+  id: "a11f1e1d-0000-4000-8000-000000000000",
+  indicator: "*",
+  messageOnSubmit: "Thanks for submitting the form",
+  name: "All Field Types Form",
+  nextLabel: "Next",
+  pages: [
+    {
+      caption: "All field types",
+      fieldsets: [
+        {
+          caption: "",
+          columns: [
+            {
+              caption: "",
+              width: 12,
+              fields: [
+                {
+                  alias: "shortAnswer",
+                  caption: "Short answer",
+                  condition: {
+                    actionType: "Show",
+                    logicType: "All",
+                    rules: [],
+                  },
+                  helpText: "",
+                  id: "a11f1e1d-0000-4000-8000-000000000001",
+                  pattern: "",
+                  patternInvalidErrorMessage:
+                    "Please provide a valid value for Short answer",
+                  placeholder: "John Doe",
+                  preValues: [],
+                  required: true,
+                  requiredErrorMessage:
+                    "Please provide a value for Short answer",
+                  settings: {
+                    defaultValue: "",
+                    placeholder: "",
+                    showLabel: "",
+                    maximumLength: "50",
+                    fieldType: "",
+                    autocompleteAttribute: "name",
+                  },
+                  type: {
+                    id: "3f92e01b-29e2-4a30-bf33-9df5580ed52c",
+                    name: "Short answer",
+                  },
+                },
+                {
+                  alias: "longAnswer",
+                  caption: "Long answer",
+                  condition: {
+                    actionType: "Show",
+                    logicType: "All",
+                    rules: [],
+                  },
+                  helpText: "",
+                  id: "a11f1e1d-0000-4000-8000-000000000002",
+                  pattern: "",
+                  patternInvalidErrorMessage:
+                    "Please provide a valid value for Long answer",
+                  placeholder: "",
+                  preValues: [],
+                  required: false,
+                  requiredErrorMessage:
+                    "Please provide a value for Long answer",
+                  settings: {
+                    defaultValue: "",
+                    placeholder: "",
+                    showLabel: "",
+                    autocompleteAttribute: "",
+                    numberOfRows: "4",
+                    maximumLength: "500",
+                  },
+                  type: {
+                    id: "023f09ac-1445-4bcb-b8fa-ab49f33bd046",
+                    name: "Long answer",
+                  },
+                },
+                {
+                  alias: "password",
+                  caption: "Password",
+                  condition: {
+                    actionType: "Show",
+                    logicType: "All",
+                    rules: [],
+                  },
+                  helpText: "",
+                  id: "a11f1e1d-0000-4000-8000-000000000003",
+                  pattern: "^.{8,}$",
+                  patternInvalidErrorMessage:
+                    "Please use at least 8 characters for Password",
+                  placeholder: "",
+                  preValues: [],
+                  required: true,
+                  requiredErrorMessage: "Please provide a value for Password",
+                  settings: {
+                    placeholder: "",
+                  },
+                  type: {
+                    id: "fb37bc60-d41e-11de-aeae-37c155d89593",
+                    name: "Password",
+                  },
+                },
+                {
+                  alias: "hiddenField",
+                  caption: "Hidden field",
+                  condition: {
+                    actionType: "Show",
+                    logicType: "All",
+                    rules: [],
+                  },
+                  helpText: "",
+                  id: "a11f1e1d-0000-4000-8000-000000000004",
+                  pattern: "",
+                  patternInvalidErrorMessage:
+                    "Please provide a valid value for Hidden field",
+                  placeholder: "",
+                  preValues: [],
+                  required: false,
+                  requiredErrorMessage:
+                    "Please provide a value for Hidden field",
+                  settings: {
+                    defaultValue: "[#pageName]",
+                  },
+                  type: {
+                    id: "da206cae-1c52-434e-b21a-4a7c198af877",
+                    name: "Hidden field",
+                  },
+                },
+                {
+                  alias: "date",
+                  caption: "Date",
+                  condition: {
+                    actionType: "Show",
+                    logicType: "All",
+                    rules: [],
+                  },
+                  helpText: "",
+                  id: "a11f1e1d-0000-4000-8000-000000000005",
+                  pattern: "",
+                  patternInvalidErrorMessage:
+                    "Please provide a valid value for Date",
+                  placeholder: "",
+                  preValues: [],
+                  required: false,
+                  requiredErrorMessage: "Please provide a value for Date",
+                  settings: {
+                    placeholder: "",
+                  },
+                  type: {
+                    id: "f8b4c3b8-af28-11de-9dd8-ef5956d89593",
+                    name: "Date",
+                  },
+                },
+                {
+                  alias: "dropdown",
+                  caption: "Dropdown",
+                  condition: {
+                    actionType: "Show",
+                    logicType: "All",
+                    rules: [],
+                  },
+                  helpText: "",
+                  id: "a11f1e1d-0000-4000-8000-000000000006",
+                  pattern: "",
+                  patternInvalidErrorMessage:
+                    "Please provide a valid value for Dropdown",
+                  placeholder: "",
+                  preValues: [
+                    {
+                      value: "small",
+                      caption: "Small",
+                    },
+                    {
+                      value: "medium",
+                      caption: "Medium",
+                    },
+                    {
+                      value: "large",
+                      caption: "Large",
+                    },
+                  ],
+                  required: false,
+                  requiredErrorMessage: "Please provide a value for Dropdown",
+                  settings: {
+                    defaultValue: "",
+                    allowMultipleSelections: "",
+                    showLabel: "",
+                    autocompleteAttribute: "",
+                    selectPrompt: "Please select",
+                  },
+                  type: {
+                    id: "0dd29d42-a6a5-11de-a2f2-222256d89593",
+                    name: "Dropdown",
+                  },
+                },
+                {
+                  alias: "singleChoice",
+                  caption: "Single choice",
+                  condition: {
+                    actionType: "Show",
+                    logicType: "All",
+                    rules: [],
+                  },
+                  helpText: "",
+                  id: "a11f1e1d-0000-4000-8000-000000000007",
+                  pattern: "",
+                  patternInvalidErrorMessage:
+                    "Please provide a valid value for Single choice",
+                  placeholder: "",
+                  preValues: [
+                    {
+                      value: "yes",
+                      caption: "Yes",
+                    },
+                    {
+                      value: "no",
+                      caption: "No",
+                    },
+                  ],
+                  required: false,
+                  requiredErrorMessage:
+                    "Please provide a value for Single choice",
+                  settings: {
+                    defaultValue: "",
+                    showLabel: "",
+                  },
+                  type: {
+                    id: "903df9b0-a78c-11de-9fc1-db7a56d89593",
+                    name: "Single choice",
+                  },
+                },
+                {
+                  alias: "multipleChoice",
+                  caption: "Multiple choice",
+                  condition: {
+                    actionType: "Show",
+                    logicType: "All",
+                    rules: [],
+                  },
+                  helpText: "",
+                  id: "a11f1e1d-0000-4000-8000-000000000008",
+                  pattern: "",
+                  patternInvalidErrorMessage:
+                    "Please provide a valid value for Multiple choice",
+                  placeholder: "",
+                  preValues: [
+                    {
+                      value: "red",
+                      caption: "Red",
+                    },
+                    {
+                      value: "green",
+                      caption: "Green",
+                    },
+                    {
+                      value: "blue",
+                      caption: "Blue",
+                    },
+                  ],
+                  required: false,
+                  requiredErrorMessage:
+                    "Please provide a value for Multiple choice",
+                  settings: {
+                    defaultValue: "",
+                    showLabel: "",
+                  },
+                  type: {
+                    id: "fab43f20-a6bf-11de-a28f-9b5755d89593",
+                    name: "Multiple choice",
+                  },
+                },
+                {
+                  alias: "checkbox",
+                  caption: "Checkbox",
+                  condition: {
+                    actionType: "Show",
+                    logicType: "All",
+                    rules: [],
+                  },
+                  helpText: "",
+                  id: "a11f1e1d-0000-4000-8000-000000000009",
+                  pattern: "",
+                  patternInvalidErrorMessage:
+                    "Please provide a valid value for Checkbox",
+                  placeholder: "",
+                  preValues: [],
+                  required: false,
+                  requiredErrorMessage: "Please provide a value for Checkbox",
+                  settings: {
+                    caption: "",
+                    defaultValue: "",
+                    showLabel: "",
+                  },
+                  type: {
+                    id: "d5c0c390-ae9a-11de-a69e-666455d89593",
+                    name: "Checkbox",
+                  },
+                },
+                {
+                  alias: "dataConsent",
+                  caption: "Data consent",
+                  condition: {
+                    actionType: "Show",
+                    logicType: "All",
+                    rules: [],
+                  },
+                  helpText: "",
+                  id: "a11f1e1d-0000-4000-8000-000000000010",
+                  pattern: "",
+                  patternInvalidErrorMessage:
+                    "Please provide a valid value for Data consent",
+                  placeholder: "",
+                  preValues: [],
+                  required: true,
+                  requiredErrorMessage:
+                    "Please provide a value for Data consent",
+                  settings: {
+                    acceptCopy: "I consent to my data being stored",
+                    showLabel: "",
+                  },
+                  type: {
+                    id: "a72c9df9-3847-47cf-afb8-b86773fd12cd",
+                    name: "Data consent",
+                  },
+                },
+                {
+                  alias: "fileUpload",
+                  caption: "File upload",
+                  condition: {
+                    actionType: "Show",
+                    logicType: "All",
+                    rules: [],
+                  },
+                  helpText: "",
+                  id: "a11f1e1d-0000-4000-8000-000000000011",
+                  pattern: "",
+                  patternInvalidErrorMessage:
+                    "Please provide a valid value for File upload",
+                  placeholder: "",
+                  preValues: [],
+                  required: false,
+                  requiredErrorMessage:
+                    "Please provide a value for File upload",
+                  settings: {
+                    selectFilesListHeading: "Selected files",
+                  },
+                  type: {
+                    id: "84a17cf8-b711-46a6-9840-0e4a072ad000",
+                    name: "File upload",
+                  },
+                  fileUploadOptions: {
+                    allowAllUploadExtensions: false,
+                    allowedUploadExtensions: ["pdf", "jpg"],
+                    allowMultipleFileUploads: false,
+                  },
+                },
+                {
+                  alias: "titleAndDescription",
+                  caption: "Title and description",
+                  condition: {
+                    actionType: "Show",
+                    logicType: "All",
+                    rules: [],
+                  },
+                  helpText: "",
+                  id: "a11f1e1d-0000-4000-8000-000000000012",
+                  pattern: "",
+                  patternInvalidErrorMessage:
+                    "Please provide a valid value for Title and description",
+                  placeholder: "",
+                  preValues: [],
+                  required: false,
+                  requiredErrorMessage:
+                    "Please provide a value for Title and description",
+                  settings: {
+                    captionTag: "h2",
+                    caption: "About you",
+                    bodyText: "Tell us a little about yourself.",
+                    showLabel: "",
+                  },
+                  type: {
+                    id: "e3fbf6c4-f46c-495e-aff8-4b3c227b4a98",
+                    name: "Title and description",
+                  },
+                },
+                {
+                  alias: "richText",
+                  caption: "Rich text",
+                  condition: {
+                    actionType: "Show",
+                    logicType: "All",
+                    rules: [],
+                  },
+                  helpText: "",
+                  id: "a11f1e1d-0000-4000-8000-000000000013",
+                  pattern: "",
+                  patternInvalidErrorMessage:
+                    "Please provide a valid value for Rich text",
+                  placeholder: "",
+                  preValues: [],
+                  required: false,
+                  requiredErrorMessage: "Please provide a value for Rich text",
+                  settings: {
+                    showLabel: "",
+                    html: '<p>Read our <a href="/privacy">privacy policy</a>.</p>',
+                  },
+                  type: {
+                    id: "1f8d45f8-76e6-4550-a0f5-9637b8454619",
+                    name: "Rich text",
+                  },
+                },
+                {
+                  alias: "recaptcha2",
+                  caption: "Recaptcha2",
+                  condition: {
+                    actionType: "Show",
+                    logicType: "All",
+                    rules: [],
+                  },
+                  helpText: "",
+                  id: "a11f1e1d-0000-4000-8000-000000000014",
+                  pattern: "",
+                  patternInvalidErrorMessage:
+                    "Please provide a valid value for Recaptcha2",
+                  placeholder: "",
+                  preValues: [],
+                  required: false,
+                  requiredErrorMessage: "Please provide a value for Recaptcha2",
+                  settings: {
+                    theme: "light",
+                    size: "normal",
+                    errorMessage: "Please confirm that you are not a robot",
+                  },
+                  type: {
+                    id: "b69deaeb-ed75-4dc9-bfb8-d036bf9d3730",
+                    name: "Recaptcha2",
+                  },
+                },
+                {
+                  alias: "recaptchaV3WithScore",
+                  caption: "Recaptcha v3 with score",
+                  condition: {
+                    actionType: "Show",
+                    logicType: "All",
+                    rules: [],
+                  },
+                  helpText: "",
+                  id: "a11f1e1d-0000-4000-8000-000000000015",
+                  pattern: "",
+                  patternInvalidErrorMessage:
+                    "Please provide a valid value for Recaptcha v3 with score",
+                  placeholder: "",
+                  preValues: [],
+                  required: false,
+                  requiredErrorMessage:
+                    "Please provide a value for Recaptcha v3 with score",
+                  settings: {
+                    scoreThreshold: "0.5",
+                    errorMessage: "Please confirm that you are not a robot",
+                    saveScore: "",
+                  },
+                  type: {
+                    id: "663aa19b-423d-4f38-a1d6-c840c926ef86",
+                    name: "Recaptcha v3 with score",
+                  },
+                },
+              ],
+            },
+          ],
+          id: "a11f1e1d-0000-4000-8000-000000000100",
+        },
+      ],
+    },
+  ],
+  previousLabel: "Previous",
+  showValidationSummary: true,
+  submitLabel: "Submit",
+};